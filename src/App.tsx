@@ -1,14 +1,31 @@
-import { useEffect, useRef, useState } from 'react';
-import { ChevronDown, Volume2, VolumeX, Radio, Zap, Cpu, BarChart3, Layers } from 'lucide-react';
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { ChevronDown, Volume2, VolumeX, Radio, Zap, Cpu, BarChart3, Layers, Accessibility, Palette, Mic } from 'lucide-react';
 import * as THREE from 'three';
-import { FuelSensor } from './components/FuelSensor';
+import { FuelSensor, updateFuelSensorScan } from './components/FuelSensor';
 import { TruckModel } from './components/TruckModel';
-import { TelematicsDisplay, updateTelematicsDisplay } from './components/TelematicsDisplay';
+import {
+  TelematicsDisplay,
+  updateTelematicsDisplay,
+  resizeTelematicsDisplay,
+  tickTelematicsDisplay,
+  pinTelematicsPage
+} from './components/TelematicsDisplay';
 import { ParticleSystem, animateParticles } from './components/ParticleSystem';
 import { AudioSystem } from './audio/AudioSystem';
+import { CueScheduler } from './audio/CueScheduler';
+import { checkTriggers } from './audio/AudioAnalysis';
+import type { MusicSection } from './audio/types';
 import { createRoadTexture } from './textures/RoadTexture';
 import { TypewriterText } from './components/TypewriterText';
 import { HUDProgress } from './components/HUDProgress';
+import { AlertToasts } from './components/AlertToasts';
+import { TelematicsMirror } from './components/TelematicsMirror';
+import { AlertManager } from './alerts/AlertManager';
+import { TelematicsFeed } from './textures/TelematicsFeed';
+import { FuelHistory } from './textures/FuelHistory';
+import { DASHBOARD_THEMES } from './textures/DashboardTheme';
+import type { TelematicsData } from './textures/types';
+import { isWebGLAvailable } from './utils/webgl';
 import objectTransforms from './config/objectTransforms.json';
 
 // --- AUDIO SYSTEM EXTRACTED ---
@@ -23,20 +40,57 @@ import objectTransforms from './config/objectTransforms.json';
 // Telematics texture generator moved to: src/textures/TelematicsTexture.ts
 // Import added above for cleaner code organization
 
+// Scripted siphoning in the demo drive, so the FUEL_THEFT alert gets shown
+const DEMO_THEFT_START = 45; // Seconds into the experience
+const DEMO_THEFT_DURATION = 5; // Seconds the level falls for
+const DEMO_THEFT_DROP = 0.1; // Tank fraction lost (theft threshold is 0.06 within 20s)
+
+/**
+ * Simulated telemetry for the demo drive
+ * Fuel falls slowly with consumption, plus one sudden drop at DEMO_THEFT_START.
+ * @param time - Seconds since the experience started
+ */
+function getDemoTelemetry(time: number): TelematicsData {
+  const baseSpeed = 96;
+  const speedVariation = Math.sin(time * 0.5) * 10;
+  const fuelConsumption = time * 0.002;
+  const theft = Math.min(Math.max((time - DEMO_THEFT_START) / DEMO_THEFT_DURATION, 0), 1) * DEMO_THEFT_DROP;
+  return {
+    speed: baseSpeed + speedVariation,
+    fuelLevel: Math.max(0.15, 0.65 - fuelConsumption - theft)
+  };
+}
+
 export default function App() {
   const mountRef = useRef<HTMLDivElement>(null);
   const audioSysRef = useRef<AudioSystem | null>(null);
   const glbModelRef = useRef<THREE.Group | null>(null);
   const wheelsRef = useRef<THREE.Mesh[]>([]); // Wheel references for rotation
   
+  // Without WebGL the 3D scene is skipped and the DOM dashboard is shown instead
+  const [webglAvailable] = useState(isWebGLAvailable);
   const [isMuted, setIsMuted] = useState(true);
   const [activePhase, setActivePhase] = useState(0);
-  const [showIntroScreen, setShowIntroScreen] = useState(true);
+  const [caption, setCaption] = useState<string | null>(null);
+  const [showIntroScreen, setShowIntroScreen] = useState(webglAvailable);
   const [introFadingOut, setIntroFadingOut] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [scrollPast3, setScrollPast3] = useState(false);
   const [scrollProgress, setScrollProgress] = useState(0);
   const [displayProgress, setDisplayProgress] = useState(0);
+  // Fleet alerts: telemetry rules run on display updates, shown on the display and as HUD toasts
+  const [alerts] = useState(() => new AlertManager());
+  // Telemetry shared with the accessible DOM dashboard
+  const [telematicsFeed] = useState(() => new TelematicsFeed());
+  const [mirrorOpen, setMirrorOpen] = useState(false);
+  // Display theme index into DASHBOARD_THEMES (high contrast when the OS asks for more contrast)
+  const [displayTheme, setDisplayTheme] = useState(() => {
+    const highContrast = DASHBOARD_THEMES.findIndex(theme => theme.id === 'highContrast');
+    return window.matchMedia('(prefers-contrast: more)').matches ? Math.max(highContrast, 0) : 0;
+  });
+  // Narration clips picked from disk (the story plays without narration until then)
+  const narrationInputRef = useRef<HTMLInputElement>(null);
+  const [narrationClips, setNarrationClips] = useState(0);
   
   // Extended intro animation refs
   const extendedModeRef = useRef(false);
@@ -64,7 +118,11 @@ export default function App() {
   const cageGroupRef = useRef<THREE.Group | null>(null);
   const truckRef = useRef<THREE.Group | null>(null);
   const tankGroupRef = useRef<THREE.Group | null>(null);
+  const scanPlaneRef = useRef<THREE.Mesh | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
+  // Camera and WebGL canvas (pointer raycasting on the telematics display)
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
   
   // Material Refs for TruckModel
   const lightGrayMatRef = useRef<THREE.MeshStandardMaterial | null>(null);
@@ -76,10 +134,60 @@ export default function App() {
   // Ref for ParticleSystem
   const particlesRef = useRef<THREE.Points | null>(null);
 
-  if (!audioSysRef.current) {
-    audioSysRef.current = new AudioSystem();
-    audioSysRef.current.init(); // Initialize immediately to load audio files
-  }
+  // Audio system lifecycle - created on mount, disposed on unmount
+  // (StrictMode's mount/unmount/remount gets a fresh instance each time)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    // Horn preset per customer demo, e.g. ?horn=trainChime (see config/hornPresets.json)
+    const horn = params.get('horn') ?? undefined;
+    const audio = new AudioSystem({ horn });
+    // Adaptive music stems aren't shipped: ?music loads them from /audio/music, ?music=<url> from elsewhere
+    const music = params.get('music');
+    if (music !== null) audio.registerMusicStems(music || undefined);
+    audio.init(); // Initialize immediately to load audio files
+    audioSysRef.current = audio;
+    // QA: ?audiocheck renders the horn, air brake and engine start offline and logs timing and peaks
+    if (params.has('audiocheck')) {
+      audio.soundsLoaded.then(async () => {
+        if (audio.state === 'disposed') return;
+        const results = await checkTriggers(audio.buffers);
+        console.table(results);
+        const failed = results.filter(result => !result.passed).map(result => result.trigger);
+        if (failed.length) console.error(`❌ Audio check failed: ${failed.join(', ')}`);
+        else console.log('✓ Audio check passed');
+      }).catch(error => console.error('❌ Audio check could not render:', error));
+    }
+    return () => {
+      audio.dispose();
+      if (audioSysRef.current === audio) audioSysRef.current = null;
+    };
+  }, []);
+
+  // Alert chime (warning / critical alerts unless raised with chime: false)
+  useEffect(() => {
+    return alerts.on('raise', ({ alert, chime }) => {
+      if (chime) audioSysRef.current?.playAlertChime(alert.severity);
+    });
+  }, [alerts]);
+
+  // No WebGL means no animation loop: drive the DOM dashboard and alerts from a timer
+  useEffect(() => {
+    if (webglAvailable) return;
+    const start = performance.now();
+    // Fuel samples for the FUEL_THEFT / refuel rules (the renderer keeps these when WebGL runs)
+    const fuelHistory = new FuelHistory();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const telemetry = getDemoTelemetry((now - start) / 1000);
+      fuelHistory.push(telemetry.fuelLevel, now);
+      alerts.evaluate({
+        fuelHistory: { samples: fuelHistory.getSamples(), events: fuelHistory.getEvents() },
+        ...telemetry
+      });
+      telematicsFeed.publish(telemetry);
+    }, 500);
+    return () => clearInterval(interval);
+  }, [webglAvailable, alerts, telematicsFeed]);
 
   const toggleAudio = () => {
     const newState = !isMuted;
@@ -87,6 +195,16 @@ export default function App() {
     audioSysRef.current?.toggleMute(newState);
   };
 
+  // Register narration from local files (works offline, e.g. on a kiosk)
+  const loadNarration = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!audioSysRef.current || files.length === 0) return;
+    const ids = await audioSysRef.current.loadNarrationFiles(files);
+    console.log(`🎙️ Narration files registered: ${ids.length ? ids.join(', ') : 'none matched'}`);
+    if (ids.length) setNarrationClips(ids.length);
+  };
+
   // Get detailed section name based on scroll progress and phase
   const getSectionName = (progress: number, phase: number): string => {
     // Extended intro trigger point
@@ -135,6 +253,7 @@ export default function App() {
       }
       console.log('🚛 Triggering engine start (first time only)...');
       audioSysRef.current.triggerEngineStart();
+      audioSysRef.current.playNarration('narrationIntro');
       engineStartTriggered.current = true;
     } else if (engineStartTriggered.current) {
       console.log('⚠️ Engine start already triggered, skipping');
@@ -260,6 +379,10 @@ export default function App() {
                   mesh.geometry.dispose();
                   mesh.geometry = new THREE.PlaneGeometry(size[0], size[1]);
                 }
+                // Match the texture to the new aspect ratio
+                if (telematicsMatRef.current) {
+                  resizeTelematicsDisplay(telematicsMatRef.current, size);
+                }
                 
                 console.log('✅ Telematics display updated in 3D scene');
                 console.log('  Position:', pos);
@@ -332,7 +455,7 @@ export default function App() {
   }, [isMuted]);
 
   useEffect(() => {
-    if (!mountRef.current) return;
+    if (!mountRef.current || !webglAvailable) return;
 
     // === SCENE SETUP ===
     const scene = new THREE.Scene();
@@ -355,6 +478,7 @@ export default function App() {
     // Camera (controlled by scroll) - Reduced FOV for more natural perspective
     const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 2000); // Reduced from 55 to 45
     camera.position.set(0, 3, -20); // Starting position
+    cameraRef.current = camera;
     
     // Renderer with shadow support
     const renderer = new THREE.WebGLRenderer({ 
@@ -367,6 +491,7 @@ export default function App() {
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     mountRef.current.appendChild(renderer.domElement);
+    canvasRef.current = renderer.domElement;
 
     // === STUDIO LIGHTING SETUP ===
     // Ambient light (high for overall brightness)
@@ -529,11 +654,93 @@ export default function App() {
     // Telematics display logic moved to: src/components/TelematicsDisplay.tsx
     // Component will be rendered in JSX below
 
+    // === AUDIO CUES ===
+    // Attach AudioSystem triggers to points in the story. Cues re-arm when
+    // the user scrolls back past them, so they replay on every pass.
+    const isAudioOn = () => {
+      const master = audioSysRef.current?.masterGain;
+      return !!master && master.gain.value > 0;
+    };
+    const audioCues = new CueScheduler([
+      {
+        // Air brake at first scroll (0%)
+        id: 'air-brake',
+        at: { scroll: 0.001 },
+        hysteresis: 0.001,
+        when: isAudioOn,
+        cue: () => {
+          audioSysRef.current?.triggerAirBrake();
+          console.log('💨 Air brake triggered at 0% scroll!');
+        }
+      },
+      {
+        // Horn after 6% scroll and reduce engine volume
+        id: 'horn',
+        at: { scroll: 0.06 },
+        hysteresis: 0.03,
+        when: isAudioOn,
+        cue: () => {
+          audioSysRef.current?.triggerHornOnly();
+          audioSysRef.current?.reduceEngineVolume(); // Reduce engine to 15% background level
+          console.log('🎺 Horn triggered at 6% scroll!');
+        }
+      },
+      {
+        // Extended intro horn at 2.0s of the truck entrance
+        id: 'extended-intro-horn',
+        at: { time: 2.0 },
+        window: 0.5,
+        when: isAudioOn,
+        cue: () => audioSysRef.current?.triggerHorn()
+      }
+    ]);
+
+    // Engine shutdown / restart follow the raw page scroll: the story scroll
+    // above restarts at 0 for the extended sequence, which would stop the
+    // engine mid-page and fire the restart on the reset jump
+    const pageCues = new CueScheduler([
+      {
+        // Engine shutdown at FLEET READY (phase 3, 96% of the page)
+        id: 'engine-stop',
+        at: { scroll: 0.96 },
+        hysteresis: 0.02,
+        when: () => engineStartTriggered.current,
+        cue: () => {
+          audioSysRef.current?.triggerEngineStop();
+          console.log('🛑 Engine stopped at 96% scroll (FLEET READY)');
+        }
+      },
+      {
+        // Crank restart when scrolling back into the story (armed once past 96%)
+        // The window skips big jumps (e.g. back to the top) instead of cranking
+        id: 'engine-restart',
+        at: { scroll: 0.94 },
+        direction: 'backward',
+        hysteresis: 0.02,
+        window: 0.04,
+        when: () => engineStartTriggered.current,
+        cue: () => {
+          if (audioSysRef.current?.engineRunning) return;
+          audioSysRef.current?.triggerEngineStart();
+          console.log('🔑 Engine restarted - scrolled back into the story');
+        }
+      }
+    ]);
+
     // === ANIMATION LOOP ===
     const clock = new THREE.Clock();
     let animationFrameId: number;
     const scrollRef = { current: 0 };
     let currentPhase = 0;
+    let currentSection: MusicSection | null = null;
+    let currentCaption: string | null = null;
+    
+    // Narration clip per phase (sound bank ids, with WebVTT captions)
+    const NARRATION_BY_PHASE = ['narrationIntro', 'narrationSensorHead', 'narrationExplodedView', 'narrationTopView'];
+    
+    // Sensor scan sweep (runs once each time Phase 1 is entered)
+    const SCAN_DURATION = 3.0;
+    const scan = { startTime: null as number | null, completed: false };
     
     // Intro fade system
     let introProgress = 0;
@@ -578,12 +785,8 @@ export default function App() {
           const ease = 1 - Math.pow(1 - progress, 3); // Cubic Out
           truck.position.z = 120 * (1 - ease);
           
-          // Horn Trigger at 2.0s
-          if (extendedIntroElapsed > 2.0 && extendedIntroElapsed < 2.02) {
-            if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-              audioSysRef.current.triggerHorn();
-            }
-          }
+          // Timeline cues (horn at 2.0s)
+          audioCues.update('time', extendedIntroElapsed);
           
           // Camera shake effect during horn
           if (extendedIntroElapsed > 2.0 && extendedIntroElapsed < 2.5) {
@@ -648,21 +851,30 @@ export default function App() {
       // === UPDATE TELEMATICS DISPLAY ===
       // Update every 0.5 seconds for performance
       if (Math.floor(time * 2) !== Math.floor((time - delta) * 2)) {
-        const baseSpeed = 96;
-        const speedVariation = Math.sin(time * 0.5) * 10;
-        const currentSpeed = baseSpeed + speedVariation;
+        const telemetry = getDemoTelemetry(time);
         
-        const fuelConsumption = time * 0.002;
-        const currentFuel = Math.max(0.15, 0.65 - fuelConsumption);
+        // Drive engine audio from the same values the display shows
+        // Throttle follows acceleration (derivative of the speed variation)
+        audioSysRef.current?.setVehicleState({
+          speed: telemetry.speed,
+          throttle: 0.35 + Math.cos(time * 0.5) * 0.3,
+          load: 0.6
+        });
         
         // Update telematics display using helper function
         if (telematicsMatRef.current) {
-          updateTelematicsDisplay(telematicsMatRef.current, {
-            speed: currentSpeed,
-            fuelLevel: currentFuel
-          });
+          updateTelematicsDisplay(telematicsMatRef.current, telemetry);
         }
+        // Same data for the accessible DOM dashboard
+        telematicsFeed.publish(telemetry);
       }
+      // Page carousel timing and transitions run every frame
+      if (telematicsMatRef.current) {
+        tickTelematicsDisplay(telematicsMatRef.current);
+      }
+
+      // === UPDATE ENGINE AUDIO ===
+      audioSysRef.current?.update(time);
 
       // === SCROLL-BASED CAMERA SYSTEM (4 PHASES) ===
       // Clamp scroll value to prevent camera from going beyond boundaries
@@ -679,6 +891,7 @@ export default function App() {
       const currentPos = new THREE.Vector3();
       const currentLook = new THREE.Vector3();
       let nextPhase = 0;
+      let nextSection: MusicSection = 'intro';
 
       if (isExtendedIntro) {
         // EXTENDED INTRO: Camera at chase position
@@ -705,6 +918,7 @@ export default function App() {
         currentPos.lerpVectors(pChase.pos, pScan.pos, localT * 0.3);
         currentLook.lerpVectors(pChase.look, pScan.look, localT * 0.3);
         nextPhase = 0;
+        nextSection = 'velocity';
       } else if (t < 0.55) {
         // SENSOR HEAD: Move to side view (PHASE 1 - 3D Card)
         const localT = Math.min((t - 0.35) / 0.20, 1);
@@ -712,6 +926,7 @@ export default function App() {
         currentPos.lerpVectors(pScan.pos, pXray.pos, easeT * 0.5);
         currentLook.lerpVectors(pScan.look, pXray.look, easeT * 0.5);
         nextPhase = 1;
+        nextSection = 'sensorHead';
       } else if (t < 0.75) {
         // EXPLODED VIEW: Close-up detail (PHASE 2 - SVG)
         const localT = Math.min((t - 0.55) / 0.20, 1);
@@ -719,6 +934,7 @@ export default function App() {
         currentPos.lerpVectors(pXray.pos, pXray.pos, easeT);
         currentLook.lerpVectors(pXray.look, pXray.look, easeT);
         nextPhase = 2;
+        nextSection = 'explodedView';
       } else {
         // TOP VIEW: Final reveal (PHASE 3)
         // Clamp to ensure we stay at final position when t >= 1.0
@@ -727,11 +943,30 @@ export default function App() {
         currentPos.lerpVectors(pXray.pos, pTop.pos, easeT);
         currentLook.lerpVectors(pXray.look, pTop.look, easeT);
         nextPhase = 3;
+        nextSection = 'topView';
       }
 
       if (nextPhase !== currentPhase) {
         setActivePhase(nextPhase);
         currentPhase = nextPhase;
+        audioSysRef.current?.playNarration(NARRATION_BY_PHASE[nextPhase]);
+        // SENSOR HEAD holds the dashboard on the fuel detail page
+        if (telematicsMatRef.current) {
+          pinTelematicsPage(telematicsMatRef.current, nextPhase === 1 ? 'fuelDetail' : null);
+        }
+      }
+      
+      // Captions follow the narration on the audio clock
+      const nextCaption = audioSysRef.current?.getCaption() ?? null;
+      if (nextCaption !== currentCaption) {
+        setCaption(nextCaption);
+        currentCaption = nextCaption;
+      }
+      
+      // Music follows the story section (crossfades on the next beat)
+      if (nextSection !== currentSection) {
+        audioSysRef.current?.setMusicSection(nextSection);
+        currentSection = nextSection;
       }
 
       // Smooth camera interpolation with breathing
@@ -740,6 +975,11 @@ export default function App() {
       camera.position.lerp(currentPos, 0.08);
       camera.lookAt(currentLook);
       
+      // Positional audio follows the camera (listener) and truck (emitters)
+      audioSysRef.current?.updateSpatial(camera, truck);
+      // Reverb follows the camera along the scroll timeline
+      audioSysRef.current?.updateReverb(t);
+      
       // === UPDATE 3D CARD POSITION (Phase 1 only) ===
       if (currentPhase === 1 && tankGroupRef.current) {
         const tankPos = new THREE.Vector3();
@@ -751,6 +991,32 @@ export default function App() {
         // Card positioning removed - using phase text overlays instead
       }
 
+      // === SENSOR SCAN SWEEP (Phase 1 only) ===
+      // Glowing plane sweeps down the probe while the scanner noise flutters,
+      // then a chirp signals the reading is complete
+      if (currentPhase === 1) {
+        if (scan.startTime === null) scan.startTime = time;
+        const scanProgress = (time - scan.startTime) / SCAN_DURATION;
+        const scanning = scanProgress < 1;
+        
+        if (scanPlaneRef.current) {
+          updateFuelSensorScan(scanPlaneRef.current, scanning ? scanProgress : null, time);
+        }
+        audioSysRef.current?.updateScannerVolume(scanning, time, scanProgress);
+        
+        if (!scanning && !scan.completed) {
+          scan.completed = true;
+          audioSysRef.current?.triggerChirp();
+          console.log('📡 Sensor scan complete');
+        }
+      } else if (scan.startTime !== null) {
+        // Left Phase 1 - stop the sweep and re-arm it for the next visit
+        scan.startTime = null;
+        scan.completed = false;
+        if (scanPlaneRef.current) updateFuelSensorScan(scanPlaneRef.current, null, time);
+        audioSysRef.current?.updateScannerVolume(false, time);
+      }
+
       // === UPDATE SVG PATHS (Phase 2 only - Exploded View) ===
       if (currentPhase === 2) {
         const tempV = new THREE.Vector3();
@@ -796,9 +1062,6 @@ export default function App() {
       animationFrameId = requestAnimationFrame(animate);
     };
 
-    let airBrakeTriggered = false;
-    let hornTriggered = false;
-
     const handleScroll = () => {
       const total = document.documentElement.scrollHeight - window.innerHeight;
       const rawScroll = Math.min(Math.max(window.scrollY / total, 0), 1);
@@ -817,6 +1080,7 @@ export default function App() {
         extendedModeRef.current = false;
         extendedIntroFinishedRef.current = false;
         extendedIntroStartTimeRef.current = null;
+        audioCues.reset('time');
         console.log('🔄 Extended mode reset - scrolled back below 50%');
       }
       
@@ -837,24 +1101,10 @@ export default function App() {
         scrollRef.current = 0;
       }
       
-      // Trigger air brake at first scroll (0%)
-      if (!airBrakeTriggered && scrollRef.current > 0) {
-        if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-          audioSysRef.current.triggerAirBrake();
-          airBrakeTriggered = true;
-          console.log('💨 Air brake triggered at 0% scroll!');
-        }
-      }
-
-      // Trigger horn after 6% scroll and reduce engine volume
-      if (!hornTriggered && scrollRef.current > 0.06) {
-        if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-          audioSysRef.current.triggerHornOnly();
-          audioSysRef.current.reduceEngineVolume(); // Reduce engine to 15% background level
-          hornTriggered = true;
-          console.log('🎺 Horn triggered at 6% scroll!');
-        }
-      }
+      // Scroll cues (air brake, horn)
+      audioCues.update('scroll', scrollRef.current);
+      // Engine stop / restart at the end of the page
+      pageCues.update('scroll', rawScroll);
     };
 
     const handleResize = () => {
@@ -898,8 +1148,7 @@ export default function App() {
         mountRef.current.removeChild(renderer.domElement);
       }
       renderer.dispose();
-      // Don't close AudioContext in cleanup - it causes issues with React StrictMode
-      // AudioContext will be garbage collected when page unloads
+      // AudioSystem is disposed by its own lifecycle effect
     };
   }, []);
 
@@ -932,6 +1181,23 @@ export default function App() {
 
       <div ref={mountRef} className="canvas-container" />
 
+      {/* Narration Captions (WebVTT, synced to the audio clock) */}
+      <div className={`caption-overlay ${caption ? 'visible' : 'hidden'}`} aria-live="polite">
+        {caption && <p className="caption-text">{caption}</p>}
+      </div>
+
+      {/* Alert Toasts (acknowledging also clears the display banner) */}
+      {/* Alerts are announced by the accessible dashboard's live regions */}
+      <AlertToasts alerts={alerts} announce={false} />
+
+      {/* Accessible Dashboard (DOM mirror of the 3D display; replaces it without WebGL) */}
+      <TelematicsMirror
+        feed={telematicsFeed}
+        alerts={alerts}
+        presentation={!webglAvailable ? 'standalone' : mirrorOpen ? 'overlay' : 'hidden'}
+        onClose={() => setMirrorOpen(false)}
+      />
+
       {/* HUD Progress Indicator */}
       {!showIntroScreen && (
         <HUDProgress 
@@ -964,6 +1230,48 @@ export default function App() {
             <span className="audio-button-text">AUDIO {isMuted ? 'OFF' : 'ON'}</span>
           </button>
 
+          {webglAvailable && (
+            <button
+              onClick={() => setMirrorOpen(open => !open)}
+              className="audio-button group"
+              aria-pressed={mirrorOpen}
+              aria-controls="telematics-mirror"
+            >
+              <Accessibility className="audio-button-icon" size={16} />
+              <span className="audio-button-text">DATA VIEW</span>
+            </button>
+          )}
+
+          {webglAvailable && (
+            <button
+              onClick={() => setDisplayTheme(index => (index + 1) % DASHBOARD_THEMES.length)}
+              className="audio-button group"
+              aria-label={`Display theme: ${DASHBOARD_THEMES[displayTheme].name}. Switch theme`}
+            >
+              <Palette className="audio-button-icon" size={16} />
+              <span className="audio-button-text">DISPLAY {DASHBOARD_THEMES[displayTheme].name?.toUpperCase()}</span>
+            </button>
+          )}
+
+          {webglAvailable && (
+            <button
+              onClick={() => narrationInputRef.current?.click()}
+              className="audio-button group"
+              aria-label="Load narration files"
+            >
+              <Mic className={`audio-button-icon${narrationClips ? ' active' : ''}`} size={16} />
+              <span className="audio-button-text">NARRATION {narrationClips ? `${narrationClips} CLIPS` : 'OFF'}</span>
+            </button>
+          )}
+          <input
+            ref={narrationInputRef}
+            type="file"
+            accept="audio/*,.vtt"
+            multiple
+            hidden
+            onChange={loadNarration}
+          />
+
 
         </div>
       </div>
@@ -1298,6 +1606,10 @@ export default function App() {
           rotation={objectTransforms.telematicsDisplay.rotation as [number, number, number]}
           size={objectTransforms.telematicsDisplay.size as [number, number]}
           initialData={{ speed: 85, fuelLevel: 0.65 }}
+          theme={DASHBOARD_THEMES[displayTheme]}
+          alerts={alerts}
+          camera={cameraRef.current ?? undefined}
+          domElement={canvasRef.current ?? undefined}
           onMaterialCreated={(material) => {
             telematicsMatRef.current = material;
           }}
@@ -1330,6 +1642,7 @@ export default function App() {
             probeTubeRef.current = components.probeTube;
             cageGroupRef.current = components.cageGroup;
             tankGroupRef.current = components.tankGroup;
+            scanPlaneRef.current = components.scanPlane;
             // Store the parent group for direct updates
             if (components.sensorHeadGroup.parent) {
               fuelSensorGroupRef.current = components.sensorHeadGroup.parent as THREE.Group;
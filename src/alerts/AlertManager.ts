@@ -0,0 +1,193 @@
+import type { Alert, AlertInput, AlertRule, AlertSeverity, AlertManagerEvents } from './types';
+import type { TelematicsData } from '../textures/types';
+import { DEFAULT_ALERT_RULES } from './rules';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2
+};
+
+/**
+ * AlertManager - Fleet alerts raised from telemetry rules or code
+ *
+ * Provides:
+ * - One active alert per code: raising a code again updates its message,
+ *   and escalating its severity re-raises it (even if acknowledged)
+ * - Telemetry rules evaluated on every display update (see DEFAULT_ALERT_RULES)
+ * - Acknowledge / clear by id or code
+ * - Typed events for the display banner, HUD toasts and alert chime
+ *
+ * @example
+ * ```typescript
+ * const alerts = new AlertManager();
+ * alerts.on('raise', ({ alert, chime }) => chime && audioSystem.playAlertChime(alert.severity));
+ *
+ * alerts.evaluate(telematicsData); // Telemetry rules
+ * alerts.raise({ severity: 'warning', code: 'GEOFENCE', message: 'LEFT DEPOT AREA' });
+ * alerts.acknowledge('GEOFENCE');
+ * ```
+ */
+export class AlertManager {
+  rules: AlertRule[];
+
+  private alerts: Alert[] = [];
+  private nextId = 1;
+  private listeners: { [K in keyof AlertManagerEvents]?: Set<(event: AlertManagerEvents[K]) => void> } = {};
+
+  constructor(rules: AlertRule[] = DEFAULT_ALERT_RULES) {
+    this.rules = rules;
+  }
+
+  /**
+   * Raise an alert, or update the active alert with the same code
+   * @param input - Severity, code and message
+   * @returns The active alert for the code
+   */
+  raise(input: AlertInput): Alert {
+    const existing = this.find(input.code);
+
+    if (existing) {
+      const escalated = SEVERITY_RANK[input.severity] > SEVERITY_RANK[existing.severity];
+      if (!escalated && existing.message === input.message) return existing;
+
+      existing.message = input.message;
+      if (escalated) {
+        existing.severity = input.severity;
+        existing.timestamp = Date.now();
+        existing.acknowledged = false;
+        this.emit('raise', { alert: existing, chime: input.chime ?? true });
+        console.log(`🚨 Alert escalated: ${existing.code} (${existing.severity})`);
+      }
+      this.emitChange();
+      return existing;
+    }
+
+    const alert: Alert = {
+      id: `alert-${this.nextId++}`,
+      severity: input.severity,
+      code: input.code,
+      message: input.message,
+      timestamp: Date.now(),
+      acknowledged: false
+    };
+    this.alerts.push(alert);
+    this.emit('raise', { alert, chime: input.chime ?? input.severity !== 'info' });
+    this.emitChange();
+    console.log(`🚨 Alert raised: ${alert.code} (${alert.severity}) - ${alert.message}`);
+    return alert;
+  }
+
+  /**
+   * Mark an alert as seen
+   * @param idOrCode - Alert id or code
+   * @returns False if no active alert matches
+   */
+  acknowledge(idOrCode: string): boolean {
+    const alert = this.find(idOrCode);
+    if (!alert) return false;
+    if (alert.acknowledged) return true;
+
+    alert.acknowledged = true;
+    this.emit('acknowledge', { alert });
+    this.emitChange();
+    return true;
+  }
+
+  /**
+   * Mark every active alert as seen
+   */
+  acknowledgeAll(): void {
+    this.alerts.filter(alert => !alert.acknowledged).forEach(alert => this.acknowledge(alert.id));
+  }
+
+  /**
+   * Remove an alert
+   * @param idOrCode - Alert id or code
+   * @returns False if no active alert matches
+   */
+  clear(idOrCode: string): boolean {
+    const alert = this.find(idOrCode);
+    if (!alert) return false;
+
+    this.alerts = this.alerts.filter(a => a !== alert);
+    this.emit('clear', { alert });
+    this.emitChange();
+    return true;
+  }
+
+  /**
+   * Run the telemetry rules: raise alerts whose condition holds and clear
+   * auto-clearing alerts whose condition no longer does
+   * @param data - Latest telemetry (with fuel history for theft detection)
+   */
+  evaluate(data: TelematicsData): void {
+    this.rules.forEach(rule => {
+      if (rule.when(data)) {
+        this.raise({
+          severity: rule.severity,
+          code: rule.code,
+          message: typeof rule.message === 'function' ? rule.message(data) : rule.message
+        });
+      } else if (rule.autoClear !== false && this.find(rule.code)) {
+        this.clear(rule.code);
+      }
+    });
+  }
+
+  /**
+   * Active alerts, newest first
+   */
+  getActive(): Alert[] {
+    return [...this.alerts].reverse();
+  }
+
+  /**
+   * Most severe unacknowledged alert (newest wins ties), or null
+   */
+  getTop(): Alert | null {
+    let top: Alert | null = null;
+    this.alerts.forEach(alert => {
+      if (alert.acknowledged) return;
+      if (!top || SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[top.severity]) top = alert;
+    });
+    return top;
+  }
+
+  /**
+   * Subscribe to alert events
+   * @param type - Event name
+   * @param listener - Called with the event payload
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof AlertManagerEvents>(type: K, listener: (event: AlertManagerEvents[K]) => void): () => void {
+    const listeners = this.listeners as { [T in K]?: Set<(event: AlertManagerEvents[K]) => void> };
+    const set = (listeners[type] ??= new Set());
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Find an active alert by id or code
+   * @private
+   */
+  private find(idOrCode: string): Alert | undefined {
+    return this.alerts.find(alert => alert.id === idOrCode || alert.code === idOrCode);
+  }
+
+  /**
+   * Notify listeners of one event type
+   * @private
+   */
+  private emit<K extends keyof AlertManagerEvents>(type: K, event: AlertManagerEvents[K]): void {
+    (this.listeners[type] as Set<(event: AlertManagerEvents[K]) => void> | undefined)?.forEach(listener => listener(event));
+  }
+
+  /**
+   * Notify change listeners with the current list
+   * @private
+   */
+  private emitChange(): void {
+    this.emit('change', { alerts: this.getActive() });
+  }
+}
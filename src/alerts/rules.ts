@@ -0,0 +1,61 @@
+import type { AlertRule } from './types';
+import type { TelematicsData, FuelEvent } from '../textures/types';
+
+/**
+ * How long after a sudden fuel drop ends it still raises a theft alert (ms)
+ */
+const THEFT_HOLD = 60000;
+
+/**
+ * Built-in telemetry rules
+ * - FUEL_THEFT: sudden drop detected in the fuel history
+ * - LOW_FUEL / FUEL_CRITICAL: fuel level below 20% / 10%
+ * - SENSOR_FAULT: any diagnostics item in fault
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    code: 'FUEL_THEFT',
+    severity: 'critical',
+    when: data => getRecentTheft(data) !== null,
+    message: data => {
+      const theft = getRecentTheft(data);
+      const liters = theft ? Math.round((theft.from - theft.to) * (data.tankCapacity ?? 400)) : 0;
+      return `FUEL THEFT: ${liters}L DROP`;
+    },
+    autoClear: false
+  },
+  {
+    code: 'LOW_FUEL',
+    severity: 'warning',
+    when: data => data.fuelLevel < 0.2,
+    message: data => `LOW FUEL: ${Math.round(data.fuelLevel * 100)}%`
+  },
+  {
+    code: 'FUEL_CRITICAL',
+    severity: 'critical',
+    when: data => data.fuelLevel < 0.1,
+    message: data => `FUEL CRITICAL: ${Math.round(data.fuelLevel * 100)}%`
+  },
+  {
+    code: 'SENSOR_FAULT',
+    severity: 'critical',
+    when: data => (data.diagnostics ?? []).some(item => item.status === 'fault'),
+    message: data => {
+      const labels = (data.diagnostics ?? []).filter(item => item.status === 'fault').map(item => item.label);
+      return `SENSOR FAULT: ${labels.join(', ')}`;
+    }
+  }
+];
+
+/**
+ * Latest theft event if it ended within THEFT_HOLD of the newest sample
+ * @private
+ */
+function getRecentTheft(data: TelematicsData): FuelEvent | null {
+  const history = data.fuelHistory;
+  if (!history || history.samples.length === 0) return null;
+  const newest = history.samples[history.samples.length - 1].time;
+  const thefts = history.events.filter(event => event.type === 'theft');
+  const last = thefts[thefts.length - 1];
+  return last && newest - last.end <= THEFT_HOLD ? last : null;
+}
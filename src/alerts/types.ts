@@ -0,0 +1,70 @@
+/**
+ * Alert Type Definitions
+ * 
+ * Type definitions for the alert subsystem
+ */
+
+import type { TelematicsData } from '../textures/types';
+
+/**
+ * How urgent an alert is
+ * - info: status message (green)
+ * - warning: needs attention soon (amber)
+ * - critical: needs attention now, e.g. fuel theft (red)
+ */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Raised alert
+ */
+export interface Alert {
+  /** Unique id, e.g. 'alert-3' */
+  id: string;
+  severity: AlertSeverity;
+  /** Machine-readable code; one alert per code is active at a time, e.g. 'FUEL_THEFT' */
+  code: string;
+  /** Text shown on the display and toast, e.g. 'FUEL THEFT: 48L DROP' */
+  message: string;
+  /** When the alert was raised (Date.now() ms) */
+  timestamp: number;
+  /** Seen by the user: hidden from the banner and toast, still listed until cleared */
+  acknowledged: boolean;
+}
+
+/**
+ * Parameters for AlertManager.raise
+ */
+export interface AlertInput {
+  severity: AlertSeverity;
+  code: string;
+  message: string;
+  /** Play the alert chime (default: true for warning and critical) */
+  chime?: boolean;
+}
+
+/**
+ * Telemetry rule evaluated on every display update
+ */
+export interface AlertRule {
+  /** Code of the alert the rule raises */
+  code: string;
+  severity: AlertSeverity;
+  /** Alert text, or a function building it from the telemetry */
+  message: string | ((data: TelematicsData) => string);
+  /** Whether the condition currently holds */
+  when: (data: TelematicsData) => boolean;
+  /** Clear the alert once the condition stops holding (default: true) */
+  autoClear?: boolean;
+}
+
+/**
+ * AlertManager events
+ */
+export interface AlertManagerEvents {
+  /** New alert, or an existing one escalated to a higher severity */
+  raise: { alert: Alert; chime: boolean };
+  acknowledge: { alert: Alert };
+  clear: { alert: Alert };
+  /** Any change to the alert list (active alerts, newest first) */
+  change: { alerts: Alert[] };
+}
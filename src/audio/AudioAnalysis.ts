@@ -0,0 +1,136 @@
+import { AudioSystem } from './AudioSystem';
+import type { OfflineTrigger } from './types';
+
+/**
+ * Audio Analysis Helpers
+ *
+ * Deterministic measurements on rendered audio (see AudioSystem.renderOffline)
+ * for timing and level assertions in headless tests. checkTriggers() runs
+ * the standard check on the horn, air brake and engine start (the app runs
+ * it with ?audiocheck).
+ *
+ * @example
+ * ```typescript
+ * const rendered = await AudioSystem.renderOffline([{ time: 1, trigger: 'horn' }], { duration: 4 });
+ * findOnset(rendered, 0.01);           // ~1.0s
+ * getPeakLevel(rendered, 1.3, 2.1);     // horn blast peak
+ * ```
+ */
+
+/**
+ * Timing and level measured for one offline trigger
+ */
+export interface TriggerCheck {
+  trigger: OfflineTrigger;
+  /** Seconds from the cue to the first sample over the threshold, or null if silent */
+  latency: number | null;
+  /** Peak level from the cue to the end of the render */
+  peak: number;
+  /** Silent before the cue, audible within maxLatency, and not clipping */
+  passed: boolean;
+}
+
+/**
+ * Settings for checkTriggers()
+ */
+export interface TriggerCheckOptions {
+  /** Triggers to render (default: horn, air brake, engine start) */
+  triggers?: OfflineTrigger[];
+  /** Render time of the cue in seconds (default: 0.5) */
+  cueTime?: number;
+  /** Render length in seconds (default: 5, covers the engine start) */
+  duration?: number;
+  /** Level that counts as audible (default: 0.01) */
+  threshold?: number;
+  /** Longest allowed delay from cue to sound in seconds (default: 0.35) */
+  maxLatency?: number;
+}
+
+/**
+ * Render each trigger on its own and check when it sounds and how loud it peaks
+ * @param buffers - Decoded sound bank buffers (e.g. a live AudioSystem's buffers)
+ * @param options - Triggers, cue time and limits
+ * @returns One result per trigger
+ *
+ * @example
+ * ```typescript
+ * const results = await checkTriggers(audioSystem.buffers);
+ * console.table(results);
+ * ```
+ */
+export async function checkTriggers(
+  buffers: Map<string, AudioBuffer>,
+  options: TriggerCheckOptions = {}
+): Promise<TriggerCheck[]> {
+  const {
+    triggers = ['horn', 'airBrake', 'engineStart'],
+    cueTime = 0.5,
+    duration = 5,
+    threshold = 0.01,
+    maxLatency = 0.35
+  } = options;
+
+  // One render at a time keeps memory flat
+  const results: TriggerCheck[] = [];
+  for (const trigger of triggers) {
+    const rendered = await AudioSystem.renderOffline([{ time: cueTime, trigger }], { duration, buffers });
+    const onset = findOnset(rendered, threshold);
+    const latency = onset === null ? null : onset - cueTime;
+    const peak = getPeakLevel(rendered, cueTime);
+    // Cues snap to the 128-frame render quantum, so allow sound up to one quantum early
+    const early = 128 / rendered.sampleRate;
+    const passed = latency !== null && latency >= -early && latency <= maxLatency && peak <= 1;
+    results.push({ trigger, latency, peak, passed });
+  }
+  return results;
+}
+
+/**
+ * Absolute peak sample value across all channels in a time range
+ * @param buffer - Rendered audio
+ * @param start - Range start in seconds (default: 0)
+ * @param end - Range end in seconds (default: buffer end)
+ * @returns Peak level (0.0-1.0+)
+ */
+export function getPeakLevel(buffer: AudioBuffer, start: number = 0, end: number = buffer.duration): number {
+  const [from, to] = toFrames(buffer, start, end);
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = from; i < to; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+/**
+ * Time of the first sample whose level reaches a threshold
+ * @param buffer - Rendered audio
+ * @param threshold - Absolute level (0.0-1.0)
+ * @param start - Search start in seconds (default: 0)
+ * @returns Onset time in seconds, or null if the threshold is never reached
+ */
+export function findOnset(buffer: AudioBuffer, threshold: number, start: number = 0): number | null {
+  const [from, to] = toFrames(buffer, start, buffer.duration);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = from; i < to; i++) {
+    for (const data of channels) {
+      if (Math.abs(data[i]) >= threshold) {
+        return i / buffer.sampleRate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a time range to clamped frame indices
+ * @private
+ */
+function toFrames(buffer: AudioBuffer, start: number, end: number): [number, number] {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  return [from, to];
+}
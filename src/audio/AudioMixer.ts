@@ -0,0 +1,172 @@
+import type { AudioBusName, MixerBus, DuckingConfig } from './types';
+
+const BUS_NAMES: AudioBusName[] = ['engine', 'ambience', 'sfx', 'ui', 'voice', 'music'];
+
+/**
+ * AudioMixer - Multi-bus mixer for the truck audio engine
+ *
+ * Provides:
+ * - Separate engine, ambience, SFX, UI, voice and music buses
+ * - Per-bus volume, mute and solo
+ * - Automatic ducking of background buses (engine by default)
+ *   while foreground sounds like the horn play
+ * - Post-fader sends (e.g. to a reverb)
+ *
+ * @example
+ * ```typescript
+ * const mixer = new AudioMixer(ctx, masterGain, { engine: 0.8 });
+ * source.connect(mixer.getInput('sfx'));
+ * mixer.duck(2.1); // Duck engine while horn plays
+ * ```
+ */
+export class AudioMixer {
+  ctx: BaseAudioContext;
+  buses: Record<AudioBusName, MixerBus>;
+  ducking: Required<DuckingConfig>;
+
+  // Context time until which each caller holds the ducked buses down
+  private duckHolds = new Map<string, number>();
+
+  constructor(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    volumes: Partial<Record<AudioBusName, number>> = {},
+    ducking: DuckingConfig = {}
+  ) {
+    this.ctx = ctx;
+    this.ducking = {
+      buses: ['engine'],
+      amount: 0.6,
+      attack: 0.05,
+      release: 0.4,
+      ...ducking
+    };
+
+    const buses = {} as Record<AudioBusName, MixerBus>;
+    BUS_NAMES.forEach(name => {
+      const input = ctx.createGain();
+      const duck = ctx.createGain();
+      const volume = volumes[name] ?? 1;
+      input.gain.value = volume;
+      duck.gain.value = 1;
+      input.connect(duck);
+      duck.connect(destination);
+      buses[name] = { input, duck, volume, muted: false, solo: false };
+    });
+    this.buses = buses;
+  }
+
+  /**
+   * Get the node sources should connect to for a bus
+   * @param bus - Bus name
+   */
+  getInput(bus: AudioBusName): GainNode {
+    return this.buses[bus].input;
+  }
+
+  /**
+   * Feed buses to a send effect (post volume and ducking)
+   * @param destination - Send input node
+   * @param buses - Buses to send
+   */
+  addSend(destination: AudioNode, buses: AudioBusName[]): void {
+    buses.forEach(name => this.buses[name].duck.connect(destination));
+  }
+
+  /**
+   * Set bus volume (0.0-1.0+)
+   */
+  setVolume(bus: AudioBusName, volume: number): void {
+    this.buses[bus].volume = Math.max(volume, 0);
+    this.applyGains();
+  }
+
+  /**
+   * Mute or unmute a single bus
+   */
+  setMuted(bus: AudioBusName, muted: boolean): void {
+    this.buses[bus].muted = muted;
+    this.applyGains();
+  }
+
+  /**
+   * Solo a bus - while any bus is soloed, all non-soloed buses are silent
+   */
+  setSolo(bus: AudioBusName, solo: boolean): void {
+    this.buses[bus].solo = solo;
+    this.applyGains();
+  }
+
+  /**
+   * Update ducking behaviour at runtime
+   */
+  setDucking(ducking: DuckingConfig): void {
+    this.ducking = { ...this.ducking, ...ducking };
+  }
+
+  /**
+   * Duck the configured background buses for a duration
+   * Overlapping calls extend the duck instead of releasing early
+   * @param duration - Seconds to hold the duck before releasing
+   * @param holder - Who holds the duck, so it can be released on its own (default: 'default')
+   */
+  duck(duration: number, holder: string = 'default'): void {
+    const now = this.ctx.currentTime;
+    this.duckHolds.set(holder, Math.max(this.duckHolds.get(holder) ?? 0, now + duration));
+    this.scheduleDuck(now);
+  }
+
+  /**
+   * Release a duck early (e.g. narration stopped before its end)
+   * Ducks held by other callers (horn, air brake) keep running.
+   * @param holder - Holder passed to duck() (default: 'default')
+   */
+  release(holder: string = 'default'): void {
+    this.duckHolds.delete(holder);
+    this.scheduleDuck(this.ctx.currentTime);
+  }
+
+  /**
+   * Hold the ducked buses down until the latest active hold ends
+   * @private
+   */
+  private scheduleDuck(now: number): void {
+    const { buses, amount, attack, release } = this.ducking;
+    this.duckHolds.forEach((until, holder) => {
+      if (until <= now) this.duckHolds.delete(holder);
+    });
+    const until = Math.max(now, ...this.duckHolds.values());
+
+    buses.forEach(name => {
+      const param = this.buses[name].duck.gain;
+      param.cancelScheduledValues(now);
+      if (until > now) param.setTargetAtTime(1 - amount, now, attack);
+      param.setTargetAtTime(1, until, release);
+    });
+  }
+
+  /**
+   * Recompute effective bus gains from volume, mute and solo state
+   * @private
+   */
+  private applyGains(): void {
+    const now = this.ctx.currentTime;
+    const anySolo = BUS_NAMES.some(name => this.buses[name].solo);
+
+    BUS_NAMES.forEach(name => {
+      const bus = this.buses[name];
+      const audible = !bus.muted && (!anySolo || bus.solo);
+      bus.input.gain.setTargetAtTime(audible ? bus.volume : 0, now, 0.05);
+    });
+  }
+
+  /**
+   * Disconnect all bus nodes
+   */
+  dispose(): void {
+    BUS_NAMES.forEach(name => {
+      this.buses[name].input.disconnect();
+      this.buses[name].duck.disconnect();
+    });
+  }
+}
@@ -1,4 +1,82 @@
-import type { EngineRefs, WindRefs, NoiseType } from './types';
+import type * as THREE from 'three';
+import { AudioMixer } from './AudioMixer';
+import { SpatialAudio } from './SpatialAudio';
+import { SoundHandle } from './SoundHandle';
+import { EngineSampler } from './EngineSampler';
+import { MusicPlayer } from './MusicPlayer';
+import { ReverbSend } from './ReverbSend';
+import { parseHornPattern, createDistortionCurve } from './HornPatterns';
+import { parseWebVTT, findSubtitle } from './WebVTT';
+import { encodeWav } from './WavEncoder';
+import soundBank from '../config/soundBank.json';
+import hornPresets from '../config/hornPresets.json';
+import type {
+  EngineRefs,
+  WindRefs,
+  NoiseType,
+  VehicleState,
+  AudioSystemConfig,
+  AudioBusName,
+  SpatialEmitterName,
+  SoundDefinition,
+  PlayOptions,
+  EngineLayer,
+  MusicSection,
+  SubtitleCue,
+  HornPreset,
+  OfflineCue,
+  OfflineRenderOptions,
+  AudioLifecycleState,
+  AudioSystemEvents
+} from './types';
+import type { AlertSeverity } from '../alerts/types';
+
+const DEFAULT_CONFIG: AudioSystemConfig = {
+  masterVolume: 0.25,
+  engineVolume: 1,
+  ambienceVolume: 1,
+  sfxVolume: 1,
+  uiVolume: 1,
+  voiceVolume: 1,
+  musicVolume: 1,
+  soundBank: soundBank.sounds as SoundDefinition[],
+  hornPresets: hornPresets.presets as HornPreset[]
+};
+
+/**
+ * Music stems for the adaptive score (see MusicPlayer)
+ * The files are not shipped in public/audio/music, so they are left out of
+ * the default sound bank to avoid failing fetches on every load. Opt in
+ * with registerMusicStems() once the stems are deployed (the app does this
+ * for ?music); music stays silent until then.
+ */
+export const MUSIC_STEMS = soundBank.musicStems as SoundDefinition[];
+
+/**
+ * Narration clips for the story phases, with WebVTT captions
+ * Like the music stems these are not shipped, so they are not fetched by
+ * default. Register them once deployed, or pick the files from disk with
+ * loadNarrationFiles() (matched by file name, e.g. intro.mp3 + intro.vtt).
+ *
+ * @example
+ * ```typescript
+ * NARRATION_CLIPS.forEach(def => audioSystem.registerSound(def));
+ * ```
+ */
+export const NARRATION_CLIPS = soundBank.narration as SoundDefinition[];
+
+const ENGINE_RUN_LEVEL = 0.25; // Engine loop level once a crank start settles
+const ENGINE_BACKGROUND_LEVEL = 0.15; // Engine loop level behind the story (reduceEngineVolume)
+
+// Allowed lifecycle transitions (dispose is allowed from every state)
+const TRANSITIONS: Record<AudioLifecycleState, AudioLifecycleState[]> = {
+  uninitialized: ['loading', 'disposed'],
+  loading: ['ready', 'disposed'],
+  ready: ['running', 'suspended', 'disposed'],
+  running: ['suspended', 'disposed'],
+  suspended: ['running', 'disposed'],
+  disposed: ['loading']
+};
 
 /**
  * AudioSystem - Enhanced Truck Audio Engine
@@ -7,21 +85,41 @@ import type { EngineRefs, WindRefs, NoiseType } from './types';
  * - Deep diesel engine rumble (brown noise)
  * - Piston firing rhythm (AM synthesis)
  * - Road and wind ambience (pink noise)
- * - Dual-tone air horn
+ * - Preset air horns (chords, distortion, rhythm patterns - see setHornPreset)
  * - Scanner/radio effects
- * - UI chirp sounds
+ * - UI chirp sounds and alert chimes (see playAlertChime)
+ * - Speed/throttle/load driven engine model (see setVehicleState)
+ * - Multi-bus mixer with engine ducking (see AudioMixer)
+ * - Declarative sound bank with generic play() handles (see SoundHandle)
+ * - Positional audio on the truck, heard from the camera (see SpatialAudio)
+ * - Doppler pass-by of the engine and horn when the truck moves past the camera
+ * - Multi-sample RPM crossfade engine loop (see EngineSampler)
+ * - Offline rendering of scripted cue lists to WAV (see renderOffline)
+ * - Adaptive per-section music stems crossfaded on the beat (see MusicPlayer, MUSIC_STEMS)
+ * - Narration voice-over with WebVTT captions on the audio clock (see playNarration)
+ * - Procedural environment reverb following the camera (see ReverbSend)
+ * - Typed lifecycle with statechange events and auto-suspend while the tab is hidden
  * 
  * @example
  * ```typescript
- * const audioSystem = new AudioSystem();
+ * const audioSystem = new AudioSystem({ masterVolume: 0.3, engineVolume: 0.8 });
  * audioSystem.init();
  * audioSystem.toggleMute(false);
  * audioSystem.triggerHorn();
+ * audioSystem.setVehicleState({ speed: 96, throttle: 0.4, load: 0.6 });
+ * const handle = audioSystem.play('airBrake', { gain: 0.8 });
+ * audioSystem.on('statechange', ({ to }) => console.log(to));
+ * audioSystem.dispose();
  * ```
  */
 export class AudioSystem {
-  ctx: AudioContext | null = null;
+  ctx: BaseAudioContext | null = null;
   masterGain: GainNode | null = null;
+  mixer: AudioMixer | null = null;
+  spatial: SpatialAudio | null = null;
+  reverb: ReverbSend | null = null;
+  config: AudioSystemConfig;
+  muted: boolean = true;
   
   // Engine Components
   engineRefs: EngineRefs = {};
@@ -31,50 +129,197 @@ export class AudioSystem {
   windRefs: WindRefs = {};
 
   scannerNode: AudioBufferSourceNode | null = null;
+  scannerFilter: BiquadFilterNode | null = null;
   scannerGain: GainNode | null = null;
 
-  hornOsc1: OscillatorNode | null = null;
-  hornOsc2: OscillatorNode | null = null;
+  hornOscs: OscillatorNode[] = [];
   hornGain: GainNode | null = null;
+  hornPreset: HornPreset | null = null;
+  // Chord mix, waveshaper and filter nodes of the current horn
+  private hornNodes: AudioNode[] = [];
 
-  airBrakeBuffer: AudioBuffer | null = null;
-  airBrakeGain: GainNode | null = null;
+  // Sound bank (manifest entries + decoded buffers, keyed by id)
+  sounds: Map<string, SoundDefinition> = new Map();
+  buffers: Map<string, AudioBuffer> = new Map();
+  subtitles: Map<string, SubtitleCue[]> = new Map();
+  soundsLoaded: Promise<void> = Promise.resolve();
 
-  engineStartBuffer: AudioBuffer | null = null;
   engineStartPlaying: boolean = false;
+  engineStartHandle: SoundHandle | null = null;
+  engineSampler: EngineSampler | null = null;
+  engineRunning: boolean = false;
+  // Level the engine loop settles at; a crank restart returns to it
+  engineLevel: number = ENGINE_RUN_LEVEL;
 
-  engineRunBuffer: AudioBuffer | null = null;
-  engineRunSource: AudioBufferSourceNode | null = null;
-  engineRunGain: GainNode | null = null;
+  // Adaptive music (stems tagged with a section in the sound bank)
+  music: MusicPlayer | null = null;
+  musicSection: MusicSection | null = null;
 
-  initialized = false;
+  // Narration clip currently playing (start time is on the audio clock)
+  narration: { handle: SoundHandle; startTime: number } | null = null;
+  // Narration picked from local files - kept so a re-init can decode it again
+  private localNarration = new Map<string, { audio: Blob; subtitles?: Blob | string }>();
+
+  // Vehicle parameters driving the engine model
+  vehicleState: VehicleState = { speed: 0, throttle: 0, load: 0 };
+
+  // Lifecycle
+  state: AudioLifecycleState = 'uninitialized';
+  private listeners: { [K in keyof AudioSystemEvents]?: Set<(event: AudioSystemEvents[K]) => void> } = {};
+  // Persistent sources started in setup*() - stopped on dispose
+  private loopSources: AudioScheduledSourceNode[] = [];
+  private autoSuspended = false;
+  private onVisibilityChange = () => this.handleVisibilityChange();
+
+  /**
+   * Whether the node graph exists (loading, ready, running or suspended)
+   */
+  get initialized(): boolean {
+    return this.state !== 'uninitialized' && this.state !== 'disposed';
+  }
+
+  /**
+   * @param config - Master and per-bus volumes plus ducking behaviour
+   */
+  constructor(config: AudioSystemConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.soundBank?.forEach(def => this.sounds.set(def.id, def));
+  }
 
   /**
    * Initialize the audio system
    * Creates AudioContext and sets up all audio nodes
+   * @param context - Existing context to build the graph on (e.g. an OfflineAudioContext)
    */
-  init(): void {
+  init(context?: BaseAudioContext): void {
     if (this.initialized) return;
+    this.setState('loading');
     
     // Create Context
-    const AC = window.AudioContext || (window as any).webkitAudioContext;
-    this.ctx = new AC();
+    if (context) {
+      this.ctx = context;
+    } else {
+      const AC = window.AudioContext || (window as any).webkitAudioContext;
+      this.ctx = new AC();
+    }
     
     // Master Gain (Volume Control)
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = 0; // Start muted
     this.masterGain.connect(this.ctx.destination);
 
+    // Mixer buses feed the master gain
+    this.mixer = new AudioMixer(this.ctx, this.masterGain, this.getBusVolumes(), this.config.ducking);
+    this.spatial = new SpatialAudio(this.ctx, this.mixer, this.config.spatial);
+    this.music = new MusicPlayer(this.ctx, this.bus('music'), this.config.music);
+    
+    // Environment reverb send returns into the master gain
+    this.reverb = new ReverbSend(this.ctx, this.masterGain, this.config.reverb?.keyframes);
+    this.mixer.addSend(this.reverb.input, this.config.reverb?.buses ?? ['engine', 'ambience', 'sfx']);
+
+    this.setupEngine();
+    this.setupAmbience();
     this.setupScanner();
     this.setupHorn();
-    this.loadAirBrake();
-    this.loadEngineStart();
-    this.loadEngineRun();
+    this.soundsLoaded = this.loadSoundBank();
+    
+    const ctx = this.ctx;
+    const live = this.getLiveContext();
+    if (live) {
+      live.onstatechange = () => this.syncContextState();
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+    this.soundsLoaded.then(() => {
+      // Ignore loads that finish after dispose() or a re-init
+      if (this.ctx !== ctx || this.state !== 'loading') return;
+      this.setState('ready');
+      this.syncContextState();
+      // Start music if a section was requested while stems were loading
+      if (this.musicSection) this.setMusicSection(this.musicSection);
+    });
     
-    this.initialized = true;
     console.log('✓ AudioSystem initialized');
   }
 
+  /**
+   * Subscribe to lifecycle events
+   * @param type - Event name
+   * @param listener - Called with the event payload
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof AudioSystemEvents>(type: K, listener: (event: AudioSystemEvents[K]) => void): () => void {
+    const set = (this.listeners[type] ??= new Set()) as Set<(event: AudioSystemEvents[K]) => void>;
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Suspend the realtime context (e.g. while the page is hidden)
+   */
+  async suspend(): Promise<void> {
+    const live = this.getLiveContext();
+    if (!live || live.state !== 'running') return;
+    await live.suspend();
+    this.syncContextState();
+  }
+
+  /**
+   * Resume the realtime context
+   * Must be called from a user gesture the first time (autoplay policy)
+   */
+  async resume(): Promise<void> {
+    const live = this.getLiveContext();
+    this.autoSuspended = false;
+    if (!live || live.state !== 'suspended') return;
+    await live.resume();
+    this.syncContextState();
+  }
+
+  /**
+   * Move to a new lifecycle state and notify listeners
+   * Invalid transitions are logged and ignored.
+   * @private
+   */
+  private setState(to: AudioLifecycleState): void {
+    const from = this.state;
+    if (from === to) return;
+    if (!TRANSITIONS[from].includes(to)) {
+      console.warn(`⚠️ Invalid AudioSystem transition: ${from} → ${to}`);
+      return;
+    }
+    this.state = to;
+    this.listeners.statechange?.forEach(listener => listener({ from, to }));
+  }
+
+  /**
+   * Mirror the context's running/suspended state once sounds are loaded
+   * @private
+   */
+  private syncContextState(): void {
+    if (this.state !== 'ready' && this.state !== 'running' && this.state !== 'suspended') return;
+    const live = this.getLiveContext();
+    // Offline contexts only run while rendering - treat them as running
+    if (!live || live.state === 'running') {
+      this.setState('running');
+    } else if (live.state === 'suspended') {
+      this.setState('suspended');
+    }
+  }
+
+  /**
+   * Suspend while the tab is hidden, resume on return only if we suspended it
+   * @private
+   */
+  private handleVisibilityChange(): void {
+    if (document.hidden) {
+      if (this.getLiveContext()?.state !== 'running') return;
+      this.autoSuspended = true;
+      this.suspend();
+    } else if (this.autoSuspended) {
+      this.resume();
+    }
+  }
+
   /**
    * Toggle mute state
    * @param isMuted - True to mute, false to unmute
@@ -82,25 +327,26 @@ export class AudioSystem {
   toggleMute(isMuted: boolean): void {
     console.log('🔊 toggleMute called:', { isMuted, initialized: this.initialized, ctxState: this.ctx?.state });
     
-    // If context is closed, reinitialize everything
+    // If context was closed externally, tear down and rebuild everything
     if (this.ctx?.state === 'closed') {
       console.warn('⚠️ AudioContext was closed, reinitializing...');
-      this.initialized = false;
-      this.init();
+      this.dispose();
     }
     
     if (!this.initialized) this.init();
     
-    if (this.ctx?.state === 'suspended') {
+    if (this.getLiveContext()?.state === 'suspended') {
       console.log('⏯️ Resuming suspended AudioContext...');
-      this.ctx.resume().then(() => {
+      this.resume().then(() => {
         console.log('✓ AudioContext resumed, state:', this.ctx?.state);
       });
     }
     
+    this.muted = isMuted;
+    
     if (this.masterGain && this.ctx) {
       const now = this.ctx.currentTime;
-      const targetGain = isMuted ? 0 : 0.25;
+      const targetGain = isMuted ? 0 : this.config.masterVolume ?? 0.25;
       this.masterGain.gain.setTargetAtTime(targetGain, now, 0.3);
       console.log('🎚️ Master gain target set to:', targetGain);
     } else {
@@ -108,6 +354,115 @@ export class AudioSystem {
     }
   }
 
+  /**
+   * Update mixer configuration at runtime
+   * @param config - Partial config; omitted fields keep their value
+   */
+  configure(config: AudioSystemConfig): void {
+    this.config = {
+      ...this.config,
+      ...config,
+      ducking: { ...this.config.ducking, ...config.ducking }
+    };
+    
+    if (this.mixer) {
+      const volumes = this.getBusVolumes();
+      (Object.keys(volumes) as AudioBusName[]).forEach(bus => {
+        this.mixer!.setVolume(bus, volumes[bus]);
+      });
+      if (config.ducking) this.mixer.setDucking(config.ducking);
+    }
+    
+    if (this.masterGain && this.ctx && !this.muted) {
+      this.masterGain.gain.setTargetAtTime(this.config.masterVolume ?? 0.25, this.ctx.currentTime, 0.1);
+    }
+  }
+
+  /**
+   * The context as a realtime AudioContext, or null when rendering offline
+   * @private
+   */
+  private getLiveContext(): AudioContext | null {
+    return this.ctx && 'close' in this.ctx ? this.ctx as AudioContext : null;
+  }
+
+  /**
+   * Map config volumes to mixer buses
+   * @private
+   */
+  private getBusVolumes(): Record<AudioBusName, number> {
+    return {
+      engine: this.config.engineVolume ?? 1,
+      ambience: this.config.ambienceVolume ?? 1,
+      sfx: this.config.sfxVolume ?? 1,
+      ui: this.config.uiVolume ?? 1,
+      voice: this.config.voiceVolume ?? 1,
+      music: this.config.musicVolume ?? 1
+    };
+  }
+
+  /**
+   * Get the input node of a mixer bus
+   * @private
+   */
+  private bus(name: AudioBusName): AudioNode {
+    return this.mixer!.getInput(name);
+  }
+
+  /**
+   * Get the node a source should connect to: a positional emitter feeding
+   * the bus, or the bus itself for non-positional sounds
+   * @private
+   */
+  private output(bus: AudioBusName, emitter?: SpatialEmitterName): AudioNode {
+    if (emitter && this.spatial) {
+      return this.spatial.getInput(emitter, bus);
+    }
+    return this.bus(bus);
+  }
+
+  /**
+   * Update listener pose from the camera and emitter positions from the truck
+   * Call once per frame in the animation loop
+   * @param camera - Active camera
+   * @param truckGroup - Truck group the emitters are attached to
+   */
+  updateSpatial(camera: THREE.Camera, truckGroup: THREE.Object3D): void {
+    if (!this.ctx || !this.spatial) return;
+    this.spatial.update(camera, truckGroup);
+    this.applyPassBy();
+  }
+
+  /**
+   * Move the environment reverb along the scroll timeline
+   * Call once per frame with the same scroll value that drives the camera
+   * @param scroll - Scroll timeline position (0-1)
+   */
+  updateReverb(scroll: number): void {
+    this.reverb?.update(scroll);
+  }
+
+  /**
+   * Apply the pass-by Doppler shift to the engine and horn
+   * Distance level and air-absorption filtering are handled by the emitters.
+   * Pitch is applied through detune so it stacks with the RPM-driven
+   * playback rate set in update().
+   * @private
+   */
+  private applyPassBy(): void {
+    if (!this.ctx || !this.spatial) return;
+    const now = this.ctx.currentTime;
+    const toCents = (ratio: number) => 1200 * Math.log2(ratio);
+
+    const exhaustCents = toCents(this.spatial.getPassBy('exhaust').pitch);
+    const engineCents = toCents(this.spatial.getPassBy('engine').pitch);
+    const hornCents = toCents(this.spatial.getPassBy('horn').pitch);
+
+    this.engineSampler?.setDetune(exhaustCents);
+    this.engineRefs.pistonOsc?.detune.setTargetAtTime(engineCents, now, 0.05);
+    this.hornOscs.forEach(osc => osc.detune.setTargetAtTime(hornCents, now, 0.05));
+  }
+
   /**
    * Create noise buffer for audio synthesis
    * @param type - Type of noise ('pink' or 'brown')
@@ -152,7 +507,7 @@ export class AudioSystem {
    * @private
    */
   private setupEngine(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.mixer) return;
     
     // 1. DEEP RUMBLE (Brown Noise)
     // Simulates the physical vibration of heavy diesel chassis
@@ -171,8 +526,9 @@ export class AudioSystem {
 
       src.connect(filter);
       filter.connect(gain);
-      gain.connect(this.masterGain);
+      gain.connect(this.output('engine', 'engine'));
       src.start();
+      this.loopSources.push(src);
       
       this.engineRefs.rumbleFilter = filter;
       this.engineRumbleGain = gain;
@@ -201,15 +557,22 @@ export class AudioSystem {
     pistonFilter.type = 'lowpass';
     pistonFilter.frequency.value = 400;
 
+    // Overall chug level (silent until the engine is running)
+    const pistonLevel = this.ctx.createGain();
+    pistonLevel.gain.value = 0;
+
     pistonOsc.connect(pistonFilter);
     pistonFilter.connect(pistonGain);
-    pistonGain.connect(this.masterGain);
+    pistonGain.connect(pistonLevel);
+    pistonLevel.connect(this.output('engine', 'engine'));
 
     pistonOsc.start();
     pistonLFO.start();
+    this.loopSources.push(pistonOsc, pistonLFO);
 
     this.engineRefs.pistonOsc = pistonOsc;
     this.engineRefs.pistonLFO = pistonLFO;
+    this.engineRefs.pistonLevel = pistonLevel;
   }
 
   /**
@@ -217,7 +580,7 @@ export class AudioSystem {
    * @private
    */
   private setupAmbience(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.mixer) return;
     
     const pinkNoise = this.createNoiseBuffer('pink');
     if (!pinkNoise) return;
@@ -236,8 +599,9 @@ export class AudioSystem {
 
     roadSrc.connect(roadFilter);
     roadFilter.connect(roadGain);
-    roadGain.connect(this.masterGain);
+    roadGain.connect(this.output('ambience', 'wheels'));
     roadSrc.start();
+    this.loopSources.push(roadSrc);
     
     this.windRefs.roadGain = roadGain;
 
@@ -256,8 +620,9 @@ export class AudioSystem {
 
     windSrc.connect(windFilter);
     windFilter.connect(windGain);
-    windGain.connect(this.masterGain);
+    windGain.connect(this.bus('ambience'));
     windSrc.start();
+    this.loopSources.push(windSrc);
 
     this.windRefs.windGain = windGain;
   }
@@ -267,7 +632,7 @@ export class AudioSystem {
    * @private
    */
   private setupScanner(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.mixer) return;
     
     const bufferSize = this.ctx.sampleRate * 0.5;
     const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
@@ -290,151 +655,493 @@ export class AudioSystem {
 
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.bus('sfx'));
     noise.start();
+    this.loopSources.push(noise);
     
     this.scannerNode = noise;
+    this.scannerFilter = filter;
     this.scannerGain = gain;
   }
 
   /**
-   * Setup dual-tone truck horn
+   * Setup truck horn from the selected preset
+   * Chord oscillators -> waveshaper -> optional lowpass -> envelope gain
    * @private
    */
   private setupHorn(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.mixer) return;
+    
+    const presets = this.config.hornPresets ?? [];
+    const preset = presets.find(p => p.id === this.config.horn) ?? presets[0];
+    if (!preset) {
+      console.warn('No horn presets configured');
+      return;
+    }
+    
+    // Chord voices summed and normalised so presets stay comparable in level
+    const mix = this.ctx.createGain();
+    const totalGain = preset.oscillators.reduce((sum, voice) => sum + (voice.gain ?? 1), 0);
+    mix.gain.value = 2 / Math.max(totalGain, 1);
+    
+    const oscs = preset.oscillators.map(voice => {
+      const osc = this.ctx!.createOscillator();
+      osc.type = voice.type;
+      osc.frequency.value = voice.frequency;
+      const voiceGain = this.ctx!.createGain();
+      voiceGain.gain.value = voice.gain ?? 1;
+      osc.connect(voiceGain);
+      voiceGain.connect(mix);
+      this.hornNodes.push(voiceGain);
+      return osc;
+    });
     
-    // Dual-tone truck horn (realistic frequencies)
-    const osc1 = this.ctx.createOscillator();
-    osc1.type = 'sawtooth';
-    osc1.frequency.value = 185; // F#3
+    // Waveshaper distortion (linear curve when the preset is clean)
+    const shaper = this.ctx.createWaveShaper();
+    shaper.curve = createDistortionCurve(preset.distortion ?? 0);
+    shaper.oversample = '4x';
+    mix.connect(shaper);
+    this.hornNodes.push(mix, shaper);
     
-    const osc2 = this.ctx.createOscillator();
-    osc2.type = 'sawtooth';
-    osc2.frequency.value = 233; // A#3
+    let last: AudioNode = shaper;
+    if (preset.cutoff) {
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = preset.cutoff;
+      shaper.connect(filter);
+      this.hornNodes.push(filter);
+      last = filter;
+    }
 
     const gain = this.ctx.createGain();
     gain.gain.value = 0;
-
-    osc1.connect(gain);
-    osc2.connect(gain);
-    gain.connect(this.masterGain);
+    last.connect(gain);
+    gain.connect(this.output('sfx', 'horn'));
     
-    osc1.start();
-    osc2.start();
+    oscs.forEach(osc => osc.start());
     
-    this.hornOsc1 = osc1;
-    this.hornOsc2 = osc2;
+    this.hornOscs = oscs;
     this.hornGain = gain;
+    this.hornPreset = preset;
   }
 
   /**
-   * Load air brake sound from MP3 file
+   * Stop and disconnect the current horn
    * @private
    */
-  private async loadAirBrake(): Promise<void> {
-    if (!this.ctx || !this.masterGain) {
-      console.error('Cannot load air brake: AudioContext not ready');
+  private teardownHorn(): void {
+    this.hornOscs.forEach(osc => {
+      osc.stop();
+      osc.disconnect();
+    });
+    this.hornNodes.forEach(node => node.disconnect());
+    this.hornGain?.disconnect();
+    this.hornOscs = [];
+    this.hornNodes = [];
+    this.hornGain = null;
+    this.hornPreset = null;
+  }
+
+  /**
+   * Switch horn preset (rebuilds the horn if the system is initialized)
+   * @param id - Preset id from the horn preset library
+   * 
+   * @example
+   * ```typescript
+   * audioSystem.setHornPreset('trainChime');
+   * audioSystem.triggerHornOnly('— — ·');
+   * ```
+   */
+  setHornPreset(id: string): void {
+    if (!this.config.hornPresets?.some(p => p.id === id)) {
+      console.warn(`Unknown horn preset "${id}"`);
       return;
     }
+    this.config.horn = id;
+    if (!this.ctx || !this.mixer) return;
     
-    try {
-      console.log('Loading air brake sound...');
-      const response = await fetch('/audio/Truck-Recycling-Air_Brake-Foot_Pedal.mp3');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const arrayBuffer = await response.arrayBuffer();
-      console.log('Air brake MP3 loaded, size:', (arrayBuffer.byteLength / 1024).toFixed(2) + 'KB');
-      
-      this.airBrakeBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-      console.log('✓ Air brake sound decoded, duration:', this.airBrakeBuffer.duration.toFixed(2) + 's');
-    } catch (error) {
-      console.error('❌ Failed to load air brake sound:', error);
-    }
+    this.teardownHorn();
+    this.setupHorn();
+    console.log(`📯 Horn preset: ${this.hornPreset?.name ?? id}`);
   }
 
   /**
-   * Load engine start sound from MP3 file
+   * Schedule a blast pattern on the horn envelope
+   * @param pattern - Rhythm string (default: the preset's pattern)
+   * @param offset - Delay before the first blast in seconds
+   * @returns Seconds from now until the last blast ends, or 0 if the horn isn't ready
    * @private
    */
-  private async loadEngineStart(): Promise<void> {
-    if (!this.ctx || !this.masterGain) {
-      console.error('Cannot load engine start: AudioContext not ready');
+  private scheduleHornPattern(pattern: string | undefined, offset: number): number {
+    if (!this.ctx || !this.hornGain || !this.hornPreset) return 0;
+    
+    const preset = this.hornPreset;
+    const level = preset.level ?? 0.2;
+    const blasts = parseHornPattern(pattern ?? preset.pattern ?? '— ·', preset);
+    const param = this.hornGain.gain;
+    const now = this.ctx.currentTime;
+    
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(0, now);
+    
+    blasts.forEach(({ start, end }) => {
+      const length = end - start;
+      const attack = Math.min(preset.attack ?? 0.05, length / 2);
+      const release = Math.min(preset.release ?? 0.1, length / 2);
+      const t0 = now + offset + start;
+      const t1 = now + offset + end;
+      param.linearRampToValueAtTime(0, t0);
+      param.linearRampToValueAtTime(level, t0 + attack);
+      param.linearRampToValueAtTime(level, t1 - release);
+      param.linearRampToValueAtTime(0, t1);
+    });
+    
+    return blasts.length > 0 ? offset + blasts[blasts.length - 1].end : 0;
+  }
+
+  /**
+   * Register a sound bank entry at runtime
+   * Loads the file immediately if the audio system is already initialized.
+   * Music stems registered late start the current section once loaded.
+   * @param def - Sound definition
+   */
+  registerSound(def: SoundDefinition): Promise<void> {
+    this.sounds.set(def.id, def);
+    this.buffers.delete(def.id);
+    if (!this.initialized) return Promise.resolve();
+    return this.loadSound(def).then(() => {
+      if (def.stem && this.musicSection) this.setMusicSection(this.musicSection);
+    });
+  }
+
+  /**
+   * Register the music stems (MUSIC_STEMS) and load them if initialized
+   * Call before init() to load them with the rest of the sound bank.
+   * @param baseUrl - Folder the stem files are served from (default: the
+   *   sound bank URLs under /audio/music)
+   *
+   * @example
+   * ```typescript
+   * audioSystem.registerMusicStems('https://cdn.example.com/truck-music');
+   * ```
+   */
+  async registerMusicStems(baseUrl?: string): Promise<void> {
+    const base = baseUrl?.replace(/\/+$/, '');
+    const stems = MUSIC_STEMS.map(def => base ? { ...def, url: base + def.url.slice(def.url.lastIndexOf('/')) } : def);
+    stems.forEach(def => {
+      this.sounds.set(def.id, def);
+      this.buffers.delete(def.id);
+    });
+    if (!this.initialized) return;
+    
+    // Start once every stem is in, so the music starts with all sections in sync
+    await Promise.all(stems.map(def => this.loadSound(def)));
+    if (this.musicSection) this.setMusicSection(this.musicSection);
+  }
+
+  /**
+   * Check whether a sound's buffer is decoded and ready to play
+   */
+  isLoaded(id: string): boolean {
+    return this.buffers.has(id);
+  }
+
+  /**
+   * Load every sound in the sound bank
+   * @private
+   */
+  private async loadSoundBank(): Promise<void> {
+    // Skip sounds whose buffers were provided up front (e.g. offline renders or local files)
+    const pending = Array.from(this.sounds.values()).filter(def => def.url && !this.buffers.has(def.id));
+    await Promise.all([
+      ...pending.map(def => this.loadSound(def)),
+      ...Array.from(this.localNarration.keys(), id => this.decodeNarrationFiles(id))
+    ]);
+  }
+
+  /**
+   * Fetch and decode a single sound bank entry
+   * @private
+   */
+  private async loadSound(def: SoundDefinition): Promise<void> {
+    const ctx = this.ctx;
+    if (!ctx || !this.mixer) {
+      console.error(`Cannot load sound "${def.id}": AudioContext not ready`);
       return;
     }
+    // Loads still in flight after dispose() or a re-init (e.g. StrictMode's remount) are dropped quietly
+    const stale = () => this.state === 'disposed' || this.ctx !== ctx;
     
     try {
-      console.log('Loading engine start sound...');
-      const response = await fetch('/audio/Truck-Engine-Start.mp3');
+      console.log(`Loading sound "${def.id}"...`);
+      const response = await fetch(def.url);
+      if (stale()) return;
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       
       const arrayBuffer = await response.arrayBuffer();
-      console.log('Engine start MP3 loaded, size:', (arrayBuffer.byteLength / 1024).toFixed(2) + 'KB');
+      if (stale()) return;
+      console.log(`Sound "${def.id}" loaded, size:`, (arrayBuffer.byteLength / 1024).toFixed(2) + 'KB');
       
-      this.engineStartBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-      console.log('✓ Engine start sound decoded, duration:', this.engineStartBuffer.duration.toFixed(2) + 's');
+      const buffer = await ctx.decodeAudioData(arrayBuffer);
+      if (stale()) return;
+      this.buffers.set(def.id, buffer);
+      console.log(`✓ Sound "${def.id}" decoded, duration:`, buffer.duration.toFixed(2) + 's');
     } catch (error) {
-      console.error('❌ Failed to load engine start sound:', error);
+      if (stale()) return;
+      console.error(`❌ Failed to load sound "${def.id}":`, error);
     }
+    
+    if (def.subtitles) {
+      try {
+        const response = await fetch(def.subtitles);
+        if (stale()) return;
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const text = await response.text();
+        if (stale()) return;
+        this.subtitles.set(def.id, parseWebVTT(text));
+      } catch (error) {
+        if (stale()) return;
+        console.error(`❌ Failed to load subtitles for "${def.id}":`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a narration clip from local files (e.g. picked from disk on a kiosk)
+   * Works without a server - the blobs are decoded directly. Files registered
+   * before init() are decoded once the audio system starts.
+   * @param id - Sound bank id to register the clip under
+   * @param audio - Audio file
+   * @param subtitles - Optional WebVTT file or text
+   */
+  async registerNarrationFiles(id: string, audio: Blob, subtitles?: Blob | string): Promise<void> {
+    this.sounds.set(id, { id, url: '', bus: 'voice' });
+    this.localNarration.set(id, { audio, subtitles });
+    this.buffers.delete(id);
+    this.subtitles.delete(id);
+    if (this.ctx) await this.decodeNarrationFiles(id);
   }
 
   /**
-   * Load engine run (idle) sound from MP3 file
+   * Register the story narration from a set of local files
+   * Files are matched to NARRATION_CLIPS by name (intro.mp3, intro.vtt,
+   * sensor-head.mp3, ...); files that match no clip are ignored.
+   * @param files - Audio and WebVTT files (e.g. from an <input type="file" multiple>)
+   * @returns Ids of the clips that were registered
+   */
+  async loadNarrationFiles(files: File[]): Promise<string[]> {
+    const byName = new Map(files.map(file => [file.name.toLowerCase(), file]));
+    const baseName = (url: string) => url.slice(url.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '').toLowerCase();
+    
+    const registered = NARRATION_CLIPS.flatMap(def => {
+      const name = baseName(def.url);
+      const audio = files.find(file => baseName(file.name) === name && !file.name.toLowerCase().endsWith('.vtt'));
+      if (!audio) return [];
+      return [{ id: def.id, audio, subtitles: byName.get(`${name}.vtt`) }];
+    });
+    await Promise.all(registered.map(({ id, audio, subtitles }) => this.registerNarrationFiles(id, audio, subtitles)));
+    return registered.map(({ id }) => id);
+  }
+
+  /**
+   * Decode a narration clip registered from local files
    * @private
    */
-  private async loadEngineRun(): Promise<void> {
-    if (!this.ctx || !this.masterGain) {
-      console.error('Cannot load engine run: AudioContext not ready');
-      return;
-    }
+  private async decodeNarrationFiles(id: string): Promise<void> {
+    const files = this.localNarration.get(id);
+    const ctx = this.ctx;
+    if (!files || !ctx) return;
     
     try {
-      console.log('Loading engine run sound...');
-      const response = await fetch('/audio/Truck-Engine-Run2.mp3');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const arrayBuffer = await response.arrayBuffer();
-      console.log('Engine run MP3 loaded, size:', (arrayBuffer.byteLength / 1024).toFixed(2) + 'KB');
-      
-      this.engineRunBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-      
-      // Create gain node for engine run
-      this.engineRunGain = this.ctx.createGain();
-      this.engineRunGain.gain.value = 0; // Start silent
-      this.engineRunGain.connect(this.masterGain);
-      
-      console.log('✓ Engine run sound decoded, duration:', this.engineRunBuffer.duration.toFixed(2) + 's');
+      const buffer = await ctx.decodeAudioData(await files.audio.arrayBuffer());
+      const text = files.subtitles === undefined || typeof files.subtitles === 'string'
+        ? files.subtitles
+        : await files.subtitles.text();
+      // Ignore decodes that finish after dispose() or a re-init
+      if (this.ctx !== ctx) return;
+      this.buffers.set(id, buffer);
+      if (text !== undefined) this.subtitles.set(id, parseWebVTT(text));
+      console.log(`✓ Narration "${id}" loaded from local file, duration:`, buffer.duration.toFixed(2) + 's');
     } catch (error) {
-      console.error('❌ Failed to load engine run sound:', error);
+      console.error(`❌ Failed to load narration "${id}" from local file:`, error);
+    }
+  }
+
+  /**
+   * Play a sound from the sound bank
+   * Manifest defaults (gain, loop, fades, bus) can be overridden per call.
+   * One-shots fade out over `fadeOut` seconds before the end of the file.
+   * @param id - Sound bank id
+   * @param options - Playback overrides
+   * @returns Handle for fading/stopping, or null if the sound is not ready
+   */
+  play(id: string, options: PlayOptions = {}): SoundHandle | null {
+    const def = this.sounds.get(id);
+    const buffer = this.buffers.get(id);
+    
+    if (!this.ctx || !this.mixer || !def || !buffer) {
+      console.warn(`Sound "${id}" not ready:`, {
+        ctx: !!this.ctx,
+        registered: !!def,
+        buffer: !!buffer
+      });
+      return null;
+    }
+    
+    const gainValue = options.gain ?? def.gain ?? 1;
+    const loop = options.loop ?? def.loop ?? false;
+    const fadeIn = options.fadeIn ?? def.fadeIn ?? 0;
+    const fadeOut = options.fadeOut ?? def.fadeOut ?? 0;
+    const playbackRate = options.playbackRate ?? 1;
+    const emitter = options.emitter === undefined ? def.emitter : options.emitter ?? undefined;
+    const startTime = this.ctx.currentTime + (options.delay ?? 0);
+    
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.playbackRate.value = playbackRate;
+    
+    // Dedicated gain node for this playback instance
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(fadeIn > 0 ? 0 : gainValue, startTime);
+    if (fadeIn > 0) {
+      gain.gain.linearRampToValueAtTime(gainValue, startTime + fadeIn);
+    }
+    
+    source.connect(gain);
+    gain.connect(this.output(options.bus ?? def.bus ?? 'sfx', emitter));
+    source.start(startTime);
+    
+    if (!loop) {
+      const duration = buffer.duration / playbackRate;
+      if (fadeOut > 0) {
+        gain.gain.setValueAtTime(gainValue, startTime + Math.max(fadeIn, duration - fadeOut));
+        gain.gain.linearRampToValueAtTime(0, startTime + duration);
+      }
+      source.stop(startTime + duration);
     }
+    
+    return new SoundHandle(id, this.ctx, source, gain, fadeOut);
+  }
+
+  /**
+   * Play a narration clip on the voice bus
+   * Stops any narration already playing and ducks the engine for the
+   * length of the clip. Captions follow via getCaption().
+   * Clips that are not loaded (e.g. not deployed) are skipped quietly.
+   * @param id - Sound bank id of the clip
+   * @returns Handle for the clip, or null if it is not loaded
+   */
+  playNarration(id: string): SoundHandle | null {
+    this.stopNarration();
+    
+    const buffer = this.buffers.get(id);
+    if (!buffer) return null;
+    const handle = this.play(id, { bus: 'voice', emitter: null });
+    if (!handle || !this.ctx) return null;
+    
+    const duration = buffer.duration;
+    const narration = { handle, startTime: this.ctx.currentTime };
+    this.narration = narration;
+    this.mixer?.duck(duration, 'narration');
+    
+    handle.onEnded = () => {
+      if (this.narration === narration) this.narration = null;
+    };
+    
+    console.log(`🎙️ Narration "${id}" started, duration:`, duration.toFixed(2) + 's');
+    return handle;
+  }
+
+  /**
+   * Stop the current narration clip and release the engine duck
+   * @param fadeOut - Fade-out time in seconds (default: 0.3)
+   */
+  stopNarration(fadeOut: number = 0.3): void {
+    if (!this.narration) return;
+    this.narration.handle.stop(fadeOut);
+    this.narration = null;
+    this.mixer?.release('narration');
+  }
+
+  /**
+   * Caption text for the narration at the current audio-clock time
+   * Poll once per frame to drive a caption overlay.
+   * @returns Caption text, or null when nothing should be shown
+   */
+  getCaption(): string | null {
+    if (!this.ctx || !this.narration) return null;
+    const cues = this.subtitles.get(this.narration.handle.id);
+    if (!cues) return null;
+    return findSubtitle(cues, this.ctx.currentTime - this.narration.startTime)?.text ?? null;
+  }
+
+  /**
+   * Build the engine sampler from every loaded sound bank entry tagged with an RPM
+   * @private
+   */
+  private createEngineSampler(): EngineSampler | null {
+    if (!this.ctx || !this.mixer) return null;
+    
+    const layers: EngineLayer[] = [];
+    this.sounds.forEach(def => {
+      const buffer = this.buffers.get(def.id);
+      if (def.rpm === undefined || !buffer) return;
+      layers.push({ id: def.id, buffer, rpm: def.rpm, gain: def.gain, loopStart: def.loopStart, loopEnd: def.loopEnd });
+    });
+    
+    if (layers.length === 0) {
+      console.warn('Engine sampler not ready: no engine layers loaded');
+      return null;
+    }
+    
+    const emitter = this.sounds.get(layers[0].id)?.emitter;
+    return new EngineSampler(this.ctx, this.output('engine', emitter), layers);
+  }
+
+  /**
+   * Normalized engine demand (0-1) from road speed and throttle
+   * @private
+   */
+  private getRpmNorm(): number {
+    const { speed, throttle } = this.vehicleState;
+    return Math.min((speed / 160) * 0.7 + throttle * 0.3, 1);
+  }
+
+  /**
+   * Simulated engine RPM from vehicle state (idle 700 - 1800 at full demand)
+   * @private
+   */
+  private getEngineRpm(): number {
+    return 700 + this.getRpmNorm() * 1100;
   }
 
   /**
    * Trigger engine start sound with delayed idle engine
-   * SHOULD ONLY BE CALLED ONCE - when user clicks "ENTER EXPERIENCE"
+   * Called when user clicks "ENTER EXPERIENCE", and again (crank restart)
+   * when scrolling back into the story after triggerEngineStop().
+   * Blocked while the engine is already running or cranking.
    * Sequence:
    * - 0.0s: Engine start MP3 begins (fade in 0.1s)
    * - 0.0-2.0s: Only MP3 playing (idle engine silent)
    * - 2.0s: Idle engine starts at 10% and fades up to 40%
    * - 2.0s: Engine start MP3 starts fading out
-   * - 4.5s: Engine start MP3 ends, idle engine continues at 40%
+   * - 4.5s: Engine start MP3 ends, idle engine continues at engineLevel
+   *   (25%, or the 15% background level after reduceEngineVolume())
    */
   triggerEngineStart(): void {
     console.log('⚠️ triggerEngineStart called!', new Error().stack);
     
-    if (!this.ctx || !this.engineStartBuffer) {
+    const startBuffer = this.buffers.get('engineStart');
+    if (!this.ctx || !startBuffer) {
       console.warn('Engine start not ready:', { 
         ctx: !!this.ctx, 
-        buffer: !!this.engineStartBuffer 
+        buffer: !!startBuffer 
       });
       return;
     }
@@ -444,61 +1151,51 @@ export class AudioSystem {
       return;
     }
     
+    if (this.engineRunning) {
+      console.warn('❌ Engine already running - BLOCKED');
+      return;
+    }
+    
     const now = this.ctx.currentTime;
-    const duration = this.engineStartBuffer.duration; // ~4.5s
+    const duration = startBuffer.duration; // ~4.5s
     const idleStartTime = 2.0; // Idle engine starts at 2 seconds
     const crossfadeDuration = duration - idleStartTime; // ~2.5s crossfade
     
     this.engineStartPlaying = true;
+    this.engineRunning = true;
     
-    // Start engine run MP3 loop at 2 seconds
-    if (this.engineRunBuffer && this.engineRunGain) {
-      // Create looping source for engine run
-      this.engineRunSource = this.ctx.createBufferSource();
-      this.engineRunSource.buffer = this.engineRunBuffer;
-      this.engineRunSource.loop = true;
-      this.engineRunSource.connect(this.engineRunGain);
-      
-      // Keep at 0 until 2 seconds
-      this.engineRunGain.gain.cancelScheduledValues(now);
-      this.engineRunGain.gain.setValueAtTime(0, now);
-      this.engineRunGain.gain.setValueAtTime(0, now + idleStartTime);
+    // Start multi-sample engine loop (silent until 2 seconds)
+    this.engineSampler?.stop();
+    this.engineSampler = this.createEngineSampler();
+    if (this.engineSampler) {
+      const runGain = this.engineSampler.output.gain;
+      runGain.cancelScheduledValues(now);
+      runGain.setValueAtTime(0, now);
+      runGain.setValueAtTime(0, now + idleStartTime);
       // At 2 seconds, fade in quickly - Reduced by 50%
-      this.engineRunGain.gain.linearRampToValueAtTime(0.15, now + idleStartTime + 0.3);
-      // Then fade up to full volume by the end - Reduced by 50%
-      this.engineRunGain.gain.linearRampToValueAtTime(0.25, now + duration);
+      runGain.linearRampToValueAtTime(Math.min(ENGINE_BACKGROUND_LEVEL, this.engineLevel), now + idleStartTime + 0.3);
+      // Then fade up to the engine level by the end
+      runGain.linearRampToValueAtTime(this.engineLevel, now + duration);
       
-      // Start playing immediately (but silent until 2s)
-      this.engineRunSource.start(now);
+      this.engineSampler.setRpm(this.getEngineRpm(), 0);
+      this.engineSampler.start(now);
       
       console.log('🔄 Engine run loop started (will fade in at 2s)');
     }
     
-    // Create buffer source for engine start MP3
-    const source = this.ctx.createBufferSource();
-    source.buffer = this.engineStartBuffer;
-    
-    // Create gain node for engine start MP3
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0, now);
-    // Fade in quickly
-    gain.gain.linearRampToValueAtTime(1.0, now + 0.1);
-    // Hold at full volume until idle engine starts
-    gain.gain.setValueAtTime(1.0, now + idleStartTime);
-    // Fade out during crossfade
-    gain.gain.linearRampToValueAtTime(0, now + duration);
-    
-    // Connect and play
-    source.connect(gain);
-    gain.connect(this.masterGain!);
-    source.start(now);
-    source.stop(now + duration);
-    
-    // Cleanup when finished
-    source.onended = () => {
+    // Engine start MP3: fade in, hold until idle engine starts, fade out during crossfade
+    const start = this.play('engineStart', { fadeIn: 0.1, fadeOut: crossfadeDuration });
+    this.engineStartHandle = start;
+    if (start) {
+      start.onEnded = () => {
+        if (this.engineStartHandle !== start) return;
+        this.engineStartHandle = null;
+        this.engineStartPlaying = false;
+        console.log('✓ Engine start finished, idle engine at full volume');
+      };
+    } else {
       this.engineStartPlaying = false;
-      console.log('✓ Engine start finished, idle engine at full volume');
-    };
+    }
     
     console.log('🚛 Engine start triggered with delayed idle:', {
       duration: duration.toFixed(2) + 's',
@@ -508,102 +1205,108 @@ export class AudioSystem {
   }
 
   /**
-   * Trigger air brake sound (realistic MP3 sample)
-   * Duration: Uses actual file duration
+   * Shut the engine down (end of the story)
+   * Sequence:
+   * - 0.0s: Engine loop spools down in pitch and fades out over 2.5s;
+   *         piston, rumble and road/wind fade with it (see update)
+   * - 2.0s: Air brake release hiss as the truck settles
+   * Call triggerEngineStart() afterwards to crank it back up.
    */
-  triggerAirBrake(): void {
-    if (!this.ctx || !this.airBrakeBuffer) {
-      console.warn('Air brake not ready:', { 
-        ctx: !!this.ctx, 
-        buffer: !!this.airBrakeBuffer 
-      });
+  triggerEngineStop(): void {
+    if (!this.ctx || !this.engineRunning) {
+      console.warn('Engine stop ignored:', { ctx: !!this.ctx, running: this.engineRunning });
       return;
     }
     
-    const now = this.ctx.currentTime;
-    const duration = this.airBrakeBuffer.duration;
+    const spoolDown = 2.5;
+    const brakeDelay = 2.0;
     
-    // Create new buffer source for this playback
-    const source = this.ctx.createBufferSource();
-    source.buffer = this.airBrakeBuffer;
+    this.engineRunning = false;
     
-    // Create dedicated gain node for this playback instance
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0, now);
+    // Cut a crank that is still playing
+    if (this.engineStartHandle) {
+      this.engineStartHandle.stop(0.3);
+      this.engineStartHandle = null;
+      this.engineStartPlaying = false;
+    }
     
-    // Fade in quickly, hold, then fade out - Increased volume
-    gain.gain.linearRampToValueAtTime(1.2, now + 0.05);
-    gain.gain.setValueAtTime(1.2, now + Math.max(0, duration - 0.2));
-    gain.gain.linearRampToValueAtTime(0, now + duration);
+    // Spool down: RPM sags below idle while the loop fades out
+    if (this.engineSampler) {
+      this.engineSampler.setRpm(450, spoolDown / 3);
+      this.engineSampler.stop(spoolDown);
+      this.engineSampler = null;
+    }
     
-    // Connect and play
-    source.connect(gain);
-    gain.connect(this.masterGain!);
-    source.start(now);
-    source.stop(now + duration);
+    // Air brake release once the engine has almost died
+    this.play('airBrake', { delay: brakeDelay });
+    
+    console.log('🛑 Engine stop triggered:', {
+      spoolDown: spoolDown + 's',
+      airBrakeAt: brakeDelay + 's'
+    });
+  }
+
+  /**
+   * Trigger air brake sound (realistic MP3 sample)
+   * Preset over play('airBrake') - gain and fades come from the sound bank
+   * Duration: Uses actual file duration
+   */
+  triggerAirBrake(): void {
+    const handle = this.play('airBrake');
+    const buffer = handle?.source.buffer;
+    if (!buffer) return;
+    
+    const duration = buffer.duration;
+    
+    // Duck the engine while the hiss plays
+    this.mixer?.duck(duration);
     
     console.log('💨 Air brake triggered, duration:', duration.toFixed(2) + 's');
   }
 
   /**
-   * Trigger truck horn sound only (long-short pattern)
+   * Trigger truck horn sound only
    * Does NOT trigger air brake - use this when air brake is already playing
-   * Sequence:
+   * Sequence (default dual-tone preset, "— ·"):
    * - Horn long blast: 0.0-1.0s
    * - Horn short blast: 1.2-1.8s
+   * @param pattern - Rhythm string, e.g. "— ·" (default: the preset's pattern)
    */
-  triggerHornOnly(): void {
+  triggerHornOnly(pattern?: string): void {
     if (!this.ctx || !this.hornGain) {
       console.warn('Horn not ready:', { ctx: !!this.ctx, hornGain: !!this.hornGain });
       return;
     }
-    const now = this.ctx.currentTime;
     
     // Horn starts immediately
-    this.hornGain.gain.cancelScheduledValues(now);
-    this.hornGain.gain.setValueAtTime(0, now);
-    
-    // Long blast (0.0-1.0s) - 25% volume
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 0.05);
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 0.9);
-    this.hornGain.gain.linearRampToValueAtTime(0, now + 1.0);
+    const duration = this.scheduleHornPattern(pattern, 0);
     
-    // Short blast (1.2-1.8s) - 25% volume
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 1.2);
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 1.7);
-    this.hornGain.gain.linearRampToValueAtTime(0, now + 1.8);
+    // Duck the engine under every blast
+    this.mixer?.duck(duration);
     
-    console.log('📯 Horn only triggered (no air brake)');
+    console.log('📯 Horn only triggered (no air brake):', this.hornPreset?.id, pattern ?? this.hornPreset?.pattern);
   }
 
   /**
-   * Trigger truck horn sound (long-short pattern)
+   * Trigger truck horn sound
    * Automatically triggers air brake before horn
-   * Sequence:
+   * Sequence (default dual-tone preset, "— ·"):
    * - Air brake hiss: 0.0-0.7s
    * - Horn long blast: 0.3-1.3s (overlaps with air brake tail)
    * - Horn short blast: 1.5-2.1s
+   * @param pattern - Rhythm string, e.g. "— ·" (default: the preset's pattern)
    */
-  triggerHorn(): void {
+  triggerHorn(pattern?: string): void {
     if (!this.ctx || !this.hornGain) return;
-    const now = this.ctx.currentTime;
     
     // Trigger air brake first (0.0-0.7s)
     this.triggerAirBrake();
     
     // Horn starts at 0.3s (overlaps with air brake tail)
-    this.hornGain.gain.cancelScheduledValues(now);
-    this.hornGain.gain.setValueAtTime(0, now);
-    
-    // Long blast (0.3-1.3s) - 25% volume
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 0.3);
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 1.2);
-    this.hornGain.gain.linearRampToValueAtTime(0, now + 1.3);
+    const duration = this.scheduleHornPattern(pattern, 0.3);
     
-    // Short blast (1.5-2.1s) - 25% volume
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 1.5);
-    this.hornGain.gain.linearRampToValueAtTime(0.2, now + 2.0);
-    this.hornGain.gain.linearRampToValueAtTime(0, now + 2.1);
+    // Duck the engine under every blast
+    this.mixer?.duck(duration);
   }
 
   /**
@@ -623,47 +1326,162 @@ export class AudioSystem {
     gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.bus('ui'));
     osc.start(t);
     osc.stop(t + 0.2);
   }
 
+  /**
+   * Play the alert chime for a severity through the UI bus
+   * - info: one soft tone
+   * - warning: two falling tones
+   * - critical: three rising tones, repeated
+   * The engine is ducked under warning and critical chimes.
+   * @param severity - Alert severity
+   */
+  playAlertChime(severity: AlertSeverity): void {
+    if (!this.ctx || !this.masterGain || this.masterGain.gain.value < 0.01) return;
+    const t = this.ctx.currentTime;
+
+    const tones: Record<AlertSeverity, number[]> = {
+      info: [880],
+      warning: [988, 784],
+      critical: [784, 988, 1319, 784, 988, 1319]
+    };
+    const step = severity === 'critical' ? 0.14 : 0.22;
+
+    tones[severity].forEach((frequency, i) => {
+      const start = t + i * step;
+      const osc = this.ctx!.createOscillator();
+      osc.type = severity === 'critical' ? 'square' : 'sine';
+      osc.frequency.setValueAtTime(frequency, start);
+
+      const gain = this.ctx!.createGain();
+      const level = severity === 'critical' ? 0.03 : 0.06;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(level, start + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + step * 0.9);
+
+      osc.connect(gain);
+      gain.connect(this.bus('ui'));
+      osc.start(start);
+      osc.stop(start + step);
+    });
+
+    if (severity !== 'info') {
+      this.mixer?.duck(tones[severity].length * step);
+    }
+  }
+
   /**
    * Reduce engine volume to background level (15%)
    * Called after 6% scroll to make engine less prominent
    */
   reduceEngineVolume(): void {
-    if (!this.ctx || !this.engineRunGain) return;
+    // Remembered so a crank restart comes back at the background level
+    this.engineLevel = ENGINE_BACKGROUND_LEVEL;
+    if (!this.engineSampler) return;
     
-    const now = this.ctx.currentTime;
-    this.engineRunGain.gain.cancelScheduledValues(now);
-    this.engineRunGain.gain.setValueAtTime(this.engineRunGain.gain.value, now);
-    this.engineRunGain.gain.linearRampToValueAtTime(0.15, now + 1.0); // Fade to 15% over 1 second
+    this.engineSampler.fadeTo(ENGINE_BACKGROUND_LEVEL, 1.0); // Fade to 15% over 1 second
     
     console.log('🔉 Engine volume reduced to 15% (background level)');
   }
 
   /**
-   * Update audio parameters based on time
+   * Switch the music to a story section's stem
+   * The first call starts every stem in sync; later calls crossfade on the
+   * next beat. Requests made before the stems load are applied once they do.
+   * Music plays through the 'music' bus, so master and bus mute apply.
+   * @param section - Story section
+   */
+  setMusicSection(section: MusicSection): void {
+    this.musicSection = section;
+    if (!this.music) return;
+    
+    if (this.music.isPlaying) {
+      const at = this.music.setSection(section);
+      if (at !== null && this.ctx) {
+        console.log(`🎵 Music → ${section} in ${(at - this.ctx.currentTime).toFixed(2)}s (on beat)`);
+      }
+      return;
+    }
+    
+    const stems: Partial<Record<MusicSection, AudioBuffer>> = {};
+    this.sounds.forEach(def => {
+      const buffer = this.buffers.get(def.id);
+      if (def.stem && buffer) stems[def.stem] = buffer;
+    });
+    if (Object.keys(stems).length === 0) return;
+    
+    this.music.start(stems, section);
+  }
+
+  /**
+   * Set the vehicle parameters that drive the engine and ambience model
+   * Values are clamped and smoothed in update(), so this can be called at
+   * any rate (e.g. whenever the telematics display refreshes)
+   * @param state - Speed (KM/H), throttle (0-1) and load (0-1); omitted fields keep their value
+   */
+  setVehicleState(state: Partial<VehicleState>): void {
+    const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+    const next = { ...this.vehicleState, ...state };
+    this.vehicleState = {
+      speed: Math.min(Math.max(next.speed, 0), 160),
+      throttle: clamp01(next.throttle),
+      load: clamp01(next.load)
+    };
+  }
+
+  /**
+   * Update audio parameters based on time and vehicle state
    * Call this in your animation loop for dynamic audio
+   * - Piston LFO rate / tone: follows simulated RPM (speed + throttle)
+   * - Rumble filter cutoff: opens up with throttle and load
+   * - Road / wind gains: scale with road speed
+   * - Engine sampler: crossfades / pitch-shifts layers to the simulated RPM
    * @param time - Current elapsed time in seconds
    */
   update(time: number): void {
     if (!this.ctx || this.ctx.state === 'suspended') return;
     
-    // Modulate Engine Components - REDUCED for smoother sound
+    const now = this.ctx.currentTime;
+    const { speed, throttle, load } = this.vehicleState;
+    const speedNorm = speed / 160;
+    const rpmNorm = this.getRpmNorm();
+    const running = this.engineRunning ? 1 : 0;
+    // Slower release while the engine spools down after triggerEngineStop()
+    const levelTc = this.engineRunning ? 0.3 : 0.8;
+
+    // Engine Components - subtle rev variation on top of the vehicle-driven base
     if (this.engineRefs.pistonLFO) {
-      // Very subtle rev variation
-      this.engineRefs.pistonLFO.frequency.value = 12 + Math.sin(time * 0.3) * 0.5;
+      // Firing slows as the engine spools down
+      const firingRate = (8 + rpmNorm * 14 + Math.sin(time * 0.3) * 0.5) * (this.engineRunning ? 1 : 0.5);
+      this.engineRefs.pistonLFO.frequency.setTargetAtTime(firingRate, now, levelTc);
+    }
+    if (this.engineRefs.pistonOsc) {
+      this.engineRefs.pistonOsc.frequency.setTargetAtTime(45 + rpmNorm * 35, now, 0.2);
+    }
+    if (this.engineRefs.pistonLevel) {
+      this.engineRefs.pistonLevel.gain.setTargetAtTime(running * (0.2 + throttle * 0.4), now, levelTc);
     }
     if (this.engineRefs.rumbleFilter) {
-      // Minimal rumble variation
-      this.engineRefs.rumbleFilter.frequency.value = 100 + Math.sin(time * 0.15) * 5;
+      const cutoff = 80 + throttle * 80 + load * 60 + Math.sin(time * 0.15) * 5;
+      this.engineRefs.rumbleFilter.frequency.setTargetAtTime(cutoff, now, 0.2);
+    }
+    if (this.engineRumbleGain) {
+      this.engineRumbleGain.gain.setTargetAtTime(running * (0.15 + load * 0.15 + throttle * 0.1), now, levelTc);
+    }
+    if (this.engineSampler) {
+      this.engineSampler.setRpm(this.getEngineRpm(), 0.3);
     }
 
-    // Minimal Wind/Road Noise modulation
+    // Road / Wind Noise - tyre roar grows linearly, wind with the square of speed
+    if (this.windRefs.roadGain) {
+      this.windRefs.roadGain.gain.setTargetAtTime(running * speedNorm * 0.12, now, levelTc);
+    }
     if (this.windRefs.windGain) {
-      this.windRefs.windGain.gain.value = 0.10 + Math.sin(time * 0.2) * 0.02;
+      const gust = Math.sin(time * 0.2) * 0.02 * speedNorm;
+      this.windRefs.windGain.gain.setTargetAtTime(running * (speedNorm * speedNorm * 0.25 + gust), now, levelTc);
     }
   }
 
@@ -671,27 +1489,210 @@ export class AudioSystem {
    * Update scanner volume (for radio/scanner effects)
    * @param isScanning - Whether scanner is active
    * @param time - Current elapsed time
+   * @param progress - Optional sweep progress (0-1); the band sweeps down from 3.2kHz to 1.6kHz with it
    */
-  updateScannerVolume(isScanning: boolean, time: number): void {
+  updateScannerVolume(isScanning: boolean, time: number, progress?: number): void {
     if (!this.ctx || !this.scannerGain) return;
     
     if (isScanning) {
       const flutter = 0.06 + Math.sin(time * 60) * 0.02; 
       this.scannerGain.gain.setTargetAtTime(flutter, this.ctx.currentTime, 0.05);
+      if (progress !== undefined && this.scannerFilter) {
+        const sweep = Math.min(Math.max(progress, 0), 1);
+        this.scannerFilter.frequency.setTargetAtTime(3200 - sweep * 1600, this.ctx.currentTime, 0.05);
+      }
     } else {
       this.scannerGain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.1);
     }
   }
 
+  /**
+   * Render a scripted cue list offline through the same node graph as live playback
+   * Each cue runs the real trigger method at its exact render time (the
+   * OfflineAudioContext is suspended there), so timing and levels match
+   * what a listener hears live. Deterministic apart from the synthesized
+   * noise beds, which stay silent unless a cue drives them.
+   * Cues at time 0 run before rendering starts. See AudioAnalysis for
+   * timing and level checks on the result.
+   * @param cues - Scripted triggers with render times
+   * @param options - Render length, format, buffers and config
+   * @returns Rendered audio (rejects if a cue cannot be scheduled or throws)
+   * 
+   * @example
+   * ```typescript
+   * const rendered = await AudioSystem.renderOffline([
+   *   { time: 0, trigger: 'engineStart' },
+   *   { time: 5, trigger: 'airBrake' },
+   *   { time: 6, trigger: 'horn' }
+   * ], { duration: 9, buffers: liveAudioSystem.buffers });
+   * ```
+   */
+  static async renderOffline(cues: OfflineCue[], options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const sampleRate = options.sampleRate ?? 44100;
+    const channels = options.channels ?? 2;
+    const ctx = new OfflineAudioContext(channels, Math.ceil(options.duration * sampleRate), sampleRate);
+    
+    const audio = new AudioSystem(options.config);
+    options.buffers?.forEach((buffer, id) => audio.buffers.set(id, buffer));
+    audio.init(ctx);
+    await audio.soundsLoaded;
+    
+    // Unmuted from the first sample (no mute fade in the render)
+    audio.muted = false;
+    audio.masterGain!.gain.value = audio.config.masterVolume ?? 0.25;
+    
+    // Group cues by render quantum - suspend() only accepts one call per time
+    const quantum = 128 / sampleRate;
+    const groups = new Map<number, OfflineCue[]>();
+    cues.forEach(cue => {
+      const at = Math.round(Math.max(cue.time, 0) / quantum) * quantum;
+      if (at >= options.duration) return;
+      groups.set(at, [...(groups.get(at) ?? []), cue]);
+    });
+    
+    try {
+      // suspend() rejects times that are not after the current time (0 before rendering)
+      groups.get(0)?.forEach(cue => audio.runOfflineCue(cue));
+      groups.delete(0);
+      
+      return await new Promise<AudioBuffer>((resolve, reject) => {
+        groups.forEach((group, at) => {
+          ctx.suspend(at).then(() => {
+            group.forEach(cue => audio.runOfflineCue(cue));
+            return ctx.resume();
+          }).catch(reject);
+        });
+        ctx.startRendering().then(resolve, reject);
+      });
+    } finally {
+      audio.dispose();
+    }
+  }
+
+  /**
+   * Render a scripted cue list offline and encode it as a 16-bit WAV file
+   * @see renderOffline
+   */
+  static async renderOfflineWav(cues: OfflineCue[], options: OfflineRenderOptions): Promise<Blob> {
+    return encodeWav(await AudioSystem.renderOffline(cues, options));
+  }
+
+  /**
+   * Run a scripted offline cue
+   * @private
+   */
+  private runOfflineCue(cue: OfflineCue): void {
+    if (typeof cue.trigger === 'function') {
+      cue.trigger(this);
+      return;
+    }
+    
+    switch (cue.trigger) {
+      case 'engineStart':
+        this.triggerEngineStart();
+        break;
+      case 'engineStop':
+        this.triggerEngineStop();
+        break;
+      case 'airBrake':
+        this.triggerAirBrake();
+        break;
+      case 'horn':
+        this.triggerHorn();
+        break;
+      case 'hornOnly':
+        this.triggerHornOnly();
+        break;
+      case 'chirp':
+        this.triggerChirp();
+        break;
+      case 'reduceEngine':
+        this.reduceEngineVolume();
+        break;
+    }
+  }
+
   /**
    * Cleanup and dispose audio resources
+   * Stops and disconnects every node, drops decoded buffers and closes a
+   * realtime context. Safe to call repeatedly; init() may be called again
+   * afterwards (React StrictMode mounts, unmounts and remounts effects).
    */
   dispose(): void {
-    if (this.ctx) {
-      this.ctx.close();
-      this.ctx = null;
+    if (this.state === 'disposed') return;
+    
+    const live = this.getLiveContext();
+    if (live) {
+      live.onstatechange = null;
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    }
+    
+    // Persistent loops
+    this.loopSources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    this.loopSources = [];
+    this.engineSampler?.stop();
+    this.engineSampler = null;
+    this.music?.dispose();
+    this.music = null;
+    this.musicSection = null;
+    this.narration?.handle.stop(0);
+    this.narration = null;
+    
+    // Processing nodes
+    [
+      this.engineRefs.rumbleFilter,
+      this.engineRefs.pistonLevel,
+      this.engineRumbleGain,
+      this.windRefs.roadGain,
+      this.windRefs.windGain,
+      this.scannerGain,
+      this.masterGain
+    ].forEach(node => node?.disconnect());
+    this.teardownHorn();
+    this.engineRefs = {};
+    this.engineRumbleGain = null;
+    this.windRefs = {};
+    this.scannerNode = null;
+    this.scannerFilter = null;
+    this.scannerGain = null;
+    this.masterGain = null;
+    
+    if (this.spatial) {
+      this.spatial.dispose();
+      this.spatial = null;
+    }
+    if (this.reverb) {
+      this.reverb.dispose();
+      this.reverb = null;
+    }
+    if (this.mixer) {
+      this.mixer.dispose();
+      this.mixer = null;
+    }
+    
+    // The context may already be closed (e.g. by the browser); close() would reject
+    if (live && live.state !== 'closed') {
+      live.close().catch(error => console.warn('⚠️ Failed to close AudioContext:', error));
     }
-    this.initialized = false;
+    this.ctx = null;
+    this.buffers.clear();
+    this.subtitles.clear();
+    this.soundsLoaded = Promise.resolve();
+    this.engineStartHandle?.stop(0);
+    this.engineStartHandle = null;
+    this.engineStartPlaying = false;
+    this.engineRunning = false;
+    this.engineLevel = ENGINE_RUN_LEVEL;
+    this.autoSuspended = false;
+    this.muted = true;
+    this.setState('disposed');
     console.log('✓ AudioSystem disposed');
   }
 }
@@ -0,0 +1,125 @@
+import type { AudioCue, CuePosition } from './types';
+
+type CueChannel = 'scroll' | 'time';
+
+interface CueState {
+  forwardArmed: boolean;
+  backwardArmed: boolean;
+}
+
+const DEFAULT_HYSTERESIS: Record<CueChannel, number> = {
+  scroll: 0.01,
+  time: 0.1
+};
+
+/**
+ * CueScheduler - Fires audio cues at points in the scroll story
+ *
+ * Cues are attached to a scroll fraction or a timeline time and fire when
+ * the position passes them in the configured direction. Each cue behaves
+ * like a Schmitt trigger: after firing it is disarmed until the position
+ * moves back past `at` by the hysteresis distance, so scrolling back
+ * up and down again replays it.
+ *
+ * @example
+ * ```typescript
+ * const cues = new CueScheduler([
+ *   { id: 'horn', at: { scroll: 0.06 }, cue: () => audioSystem.triggerHornOnly() },
+ *   { id: 'intro-horn', at: { time: 2.0 }, window: 0.5, cue: () => audioSystem.triggerHorn() }
+ * ]);
+ *
+ * // In scroll handler / animation loop
+ * cues.update('scroll', scrollFraction);
+ * cues.update('time', timelineElapsed);
+ * ```
+ */
+export class CueScheduler {
+  cues: AudioCue[] = [];
+  private states: Map<string, CueState> = new Map();
+
+  constructor(cues: AudioCue[] = []) {
+    cues.forEach(cue => this.add(cue));
+  }
+
+  /**
+   * Add a cue (replaces an existing cue with the same id)
+   */
+  add(cue: AudioCue): void {
+    this.remove(cue.id);
+    this.cues.push(cue);
+    // Forward cues start armed; backward cues arm once the position is past them
+    this.states.set(cue.id, { forwardArmed: true, backwardArmed: false });
+  }
+
+  /**
+   * Remove a cue by id
+   */
+  remove(id: string): void {
+    this.cues = this.cues.filter(cue => cue.id !== id);
+    this.states.delete(id);
+  }
+
+  /**
+   * Re-arm every cue on a channel (e.g. when a timeline restarts)
+   */
+  reset(channel?: CueChannel): void {
+    this.cues.forEach(cue => {
+      if (channel && getChannel(cue.at) !== channel) return;
+      this.states.set(cue.id, { forwardArmed: true, backwardArmed: false });
+    });
+  }
+
+  /**
+   * Feed the current position of a channel and fire any cues it passes
+   * @param channel - 'scroll' (fraction 0-1) or 'time' (seconds)
+   * @param value - Current position on that channel
+   */
+  update(channel: CueChannel, value: number): void {
+    this.cues.forEach(cue => {
+      if (getChannel(cue.at) !== channel) return;
+      const state = this.states.get(cue.id);
+      if (!state) return;
+
+      const at = getPosition(cue.at);
+      const direction = cue.direction ?? 'forward';
+      const hysteresis = cue.hysteresis ?? DEFAULT_HYSTERESIS[channel];
+      const lateWindow = cue.window ?? Infinity;
+
+      // Re-arm once the position has moved back past the cue point
+      if (value <= at - hysteresis) state.forwardArmed = true;
+      if (value >= at + hysteresis) state.backwardArmed = true;
+
+      if (direction !== 'backward' && state.forwardArmed && value >= at) {
+        if (value - at > lateWindow) {
+          state.forwardArmed = false; // Passed too far - skip this pass
+        } else if (!cue.when || cue.when()) {
+          state.forwardArmed = false;
+          cue.cue();
+        }
+      }
+
+      if (direction !== 'forward' && state.backwardArmed && value <= at) {
+        if (at - value > lateWindow) {
+          state.backwardArmed = false;
+        } else if (!cue.when || cue.when()) {
+          state.backwardArmed = false;
+          cue.cue();
+        }
+      }
+    });
+  }
+}
+
+/**
+ * @private
+ */
+function getChannel(position: CuePosition): CueChannel {
+  return 'scroll' in position ? 'scroll' : 'time';
+}
+
+/**
+ * @private
+ */
+function getPosition(position: CuePosition): number {
+  return 'scroll' in position ? position.scroll : position.time;
+}
@@ -0,0 +1,180 @@
+import type { EngineLayer } from './types';
+
+interface ActiveLayer {
+  layer: EngineLayer;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * EngineSampler - Multi-sample RPM crossfade engine
+ *
+ * Loops several engine recordings, each tagged with the RPM it was
+ * recorded at. As the simulated RPM changes, the two layers surrounding
+ * it are equal-power crossfaded and every layer is pitch-shifted by
+ * rpm / nominalRpm, so the engine revs smoothly between recordings.
+ * A layer's gain trims its level in the mix (e.g. to match a louder
+ * recording); the overall level is set on the output.
+ *
+ * Loops use zero-crossing loop points (or explicit manifest values) to
+ * skip MP3 encoder padding and avoid clicks at the loop seam.
+ *
+ * @example
+ * ```typescript
+ * const sampler = new EngineSampler(ctx, engineBus, [
+ *   { id: 'idle', buffer: idleBuffer, rpm: 900 },
+ *   { id: 'cruise', buffer: cruiseBuffer, rpm: 1400, gain: 0.8 }
+ * ]);
+ * sampler.start(ctx.currentTime);
+ * sampler.setRpm(1200);
+ * ```
+ */
+export class EngineSampler {
+  ctx: BaseAudioContext;
+  /** Overall sampler level - envelope this for start/stop fades */
+  output: GainNode;
+  rpm: number;
+
+  private layers: ActiveLayer[];
+  private started = false;
+  private stopped = false;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, layers: EngineLayer[]) {
+    this.ctx = ctx;
+    this.output = ctx.createGain();
+    this.output.gain.value = 0;
+    this.output.connect(destination);
+
+    this.layers = [...layers]
+      .sort((a, b) => a.rpm - b.rpm)
+      .map(layer => {
+        const source = ctx.createBufferSource();
+        source.buffer = layer.buffer;
+        source.loop = true;
+
+        const auto = findLoopPoints(layer.buffer);
+        source.loopStart = layer.loopStart ?? auto.start;
+        source.loopEnd = layer.loopEnd ?? auto.end;
+
+        const gain = ctx.createGain();
+        gain.gain.value = 0;
+        source.connect(gain);
+        gain.connect(this.output);
+        return { layer, source, gain };
+      });
+
+    this.rpm = this.layers[0]?.layer.rpm ?? 0;
+  }
+
+  /**
+   * Start all layer loops (silent until the output gain is raised)
+   * @param when - Context time to start at
+   */
+  start(when: number): void {
+    if (this.started || this.stopped) return;
+    this.started = true;
+    this.layers.forEach(({ source }) => source.start(when, source.loopStart));
+    this.setRpm(this.rpm, 0);
+  }
+
+  /**
+   * Set simulated engine RPM
+   * @param rpm - Target RPM
+   * @param timeConstant - Smoothing time constant in seconds (default: 0.2)
+   */
+  setRpm(rpm: number, timeConstant: number = 0.2): void {
+    if (this.layers.length === 0) return;
+    this.rpm = rpm;
+    const now = this.ctx.currentTime;
+    const tc = Math.max(timeConstant, 0.001);
+
+    // Find the pair of layers surrounding the RPM
+    const last = this.layers.length - 1;
+    let lower = 0;
+    while (lower < last && this.layers[lower + 1].layer.rpm <= rpm) lower++;
+    const upper = Math.min(lower + 1, last);
+    const lowRpm = this.layers[lower].layer.rpm;
+    const highRpm = this.layers[upper].layer.rpm;
+    const t = upper === lower ? 0 : Math.min(Math.max((rpm - lowRpm) / (highRpm - lowRpm), 0), 1);
+
+    this.layers.forEach(({ layer, source, gain }, i) => {
+      // Equal-power crossfade between the two surrounding layers
+      let level = 0;
+      if (i === lower) level = Math.cos(t * Math.PI / 2);
+      else if (i === upper) level = Math.sin(t * Math.PI / 2);
+      gain.gain.setTargetAtTime(level * (layer.gain ?? 1), now, tc);
+
+      const rate = Math.min(Math.max(rpm / layer.rpm, 0.5), 2);
+      source.playbackRate.setTargetAtTime(rate, now, tc);
+    });
+  }
+
+  /**
+   * Detune every layer (e.g. Doppler shift) without touching RPM
+   * @param cents - Detune in cents
+   */
+  setDetune(cents: number): void {
+    const now = this.ctx.currentTime;
+    this.layers.forEach(({ source }) => source.detune?.setTargetAtTime(cents, now, 0.05));
+  }
+
+  /**
+   * Ramp the overall sampler level
+   */
+  fadeTo(value: number, duration: number): void {
+    const now = this.ctx.currentTime;
+    const param = this.output.gain;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + Math.max(duration, 0.001));
+  }
+
+  /**
+   * Stop all layers, optionally fading out first
+   * @param fadeOut - Fade-out time in seconds (default: 0)
+   */
+  stop(fadeOut: number = 0): void {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    const now = this.ctx.currentTime;
+    if (fadeOut > 0) this.fadeTo(0, fadeOut);
+
+    const cleanup = () => {
+      this.layers.forEach(({ source, gain }) => {
+        source.disconnect();
+        gain.disconnect();
+      });
+      this.output.disconnect();
+    };
+
+    if (!this.started || this.layers.length === 0) {
+      cleanup();
+      return;
+    }
+    this.layers.forEach(({ source }) => source.stop(now + fadeOut));
+    this.layers[0].source.onended = cleanup;
+  }
+}
+
+/**
+ * Find loop points on rising zero crossings, skipping the edges
+ * where MP3 encoder padding and fades live
+ * @private
+ */
+function findLoopPoints(buffer: AudioBuffer): { start: number; end: number } {
+  const data = buffer.getChannelData(0);
+  const rate = buffer.sampleRate;
+  const margin = Math.min(Math.floor(rate * 0.05), Math.floor(data.length / 4));
+
+  let start = margin;
+  while (start < data.length - 1 && !(data[start] <= 0 && data[start + 1] > 0)) start++;
+
+  let end = data.length - 1 - margin;
+  while (end > start + 1 && !(data[end - 1] <= 0 && data[end] > 0)) end--;
+
+  if (end <= start + 1) {
+    return { start: 0, end: buffer.duration };
+  }
+  return { start: start / rate, end: end / rate };
+}
@@ -0,0 +1,61 @@
+import type { HornPreset, HornBlast } from './types';
+
+/**
+ * Horn Pattern Helpers
+ *
+ * Blast patterns are written as rhythm strings:
+ * - "—" (or "-") long blast
+ * - "·" (or ".") short blast
+ * - " " pause of one gap
+ *
+ * Blasts written back to back ("——") are separated only by their release.
+ *
+ * @example
+ * ```typescript
+ * parseHornPattern('— ·', preset);
+ * // [{ start: 0, end: 1.0 }, { start: 1.2, end: 1.8 }]
+ * ```
+ */
+
+/**
+ * Convert a rhythm string to blast times using a preset's timings
+ * @param pattern - Rhythm string, e.g. "— ·"
+ * @param preset - Preset supplying long/short/gap lengths
+ * @returns Blasts relative to the pattern start; unknown characters are ignored
+ */
+export function parseHornPattern(pattern: string, preset: HornPreset): HornBlast[] {
+  const long = preset.long ?? 1.0;
+  const short = preset.short ?? 0.6;
+  const gap = preset.gap ?? 0.2;
+  const blasts: HornBlast[] = [];
+  let cursor = 0;
+
+  for (const symbol of pattern) {
+    if (symbol === '—' || symbol === '-') {
+      blasts.push({ start: cursor, end: cursor + long });
+      cursor += long;
+    } else if (symbol === '·' || symbol === '.') {
+      blasts.push({ start: cursor, end: cursor + short });
+      cursor += short;
+    } else if (symbol === ' ') {
+      cursor += gap;
+    }
+  }
+  return blasts;
+}
+
+/**
+ * Soft-clipping waveshaper curve
+ * @param amount - Drive 0.0-1.0 (0 = linear, no distortion)
+ * @returns Curve for WaveShaperNode.curve
+ */
+export function createDistortionCurve(amount: number): Float32Array<ArrayBuffer> {
+  const k = Math.max(amount, 0) * 100;
+  const samples = 1024;
+  const curve = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / (samples - 1) - 1;
+    curve[i] = ((1 + k) * x) / (1 + k * Math.abs(x));
+  }
+  return curve;
+}
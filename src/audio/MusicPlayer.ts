@@ -0,0 +1,163 @@
+import type { MusicSection, MusicConfig } from './types';
+
+interface Stem {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * MusicPlayer - Tempo-locked adaptive music stems
+ *
+ * Provides:
+ * - One looping stem per story section, all started on the same
+ *   audio-clock time so they stay phase-aligned
+ * - Loop lengths trimmed to whole bars so stems never drift
+ * - Section changes crossfaded on the next beat (or bar), scheduled
+ *   on the AudioContext clock instead of timers
+ *
+ * @example
+ * ```typescript
+ * const music = new MusicPlayer(ctx, mixer.getInput('music'), { bpm: 90 });
+ * music.start({ intro: introBuffer, velocity: velocityBuffer }, 'intro');
+ * music.setSection('velocity'); // Crossfades on the next beat
+ * ```
+ */
+export class MusicPlayer {
+  ctx: BaseAudioContext;
+  config: Required<MusicConfig>;
+  /** Section that is playing (or scheduled to play on the next beat) */
+  section: MusicSection | null = null;
+
+  private output: GainNode;
+  private stems = new Map<MusicSection, Stem>();
+  // Context time of beat 0 shared by every stem
+  private startTime = 0;
+  private started = false;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, config: MusicConfig = {}) {
+    this.ctx = ctx;
+    this.config = {
+      bpm: 90,
+      beatsPerBar: 4,
+      quantize: 'beat',
+      crossfadeBeats: 2,
+      ...config
+    };
+    this.output = ctx.createGain();
+    this.output.connect(destination);
+  }
+
+  /**
+   * Whether the stems are running
+   */
+  get isPlaying(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Length of one beat in seconds
+   */
+  get beatDuration(): number {
+    return 60 / this.config.bpm;
+  }
+
+  /**
+   * Start every stem in sync, with only the given section audible
+   * @param buffers - Decoded stems by section (missing sections stay silent)
+   * @param section - Section to start on
+   * @param when - Context time of beat 0 (default: now + 0.1s)
+   */
+  start(buffers: Partial<Record<MusicSection, AudioBuffer>>, section: MusicSection, when?: number): void {
+    if (this.started) return;
+    this.started = true;
+    this.startTime = when ?? this.ctx.currentTime + 0.1;
+
+    const barDuration = this.beatDuration * this.config.beatsPerBar;
+    (Object.keys(buffers) as MusicSection[]).forEach(name => {
+      const buffer = buffers[name];
+      if (!buffer) return;
+
+      // Trim the loop to whole bars so every stem wraps on the same downbeat
+      const bars = Math.max(1, Math.floor(buffer.duration / barDuration + 0.01));
+      const source = this.ctx.createBufferSource();
+      source.buffer = buffer;
+      source.loop = true;
+      source.loopStart = 0;
+      source.loopEnd = Math.min(bars * barDuration, buffer.duration);
+
+      const gain = this.ctx.createGain();
+      gain.gain.value = name === section ? 1 : 0;
+      source.connect(gain);
+      gain.connect(this.output);
+      source.start(this.startTime);
+      this.stems.set(name, { source, gain });
+    });
+
+    this.section = section;
+    console.log(`🎵 Music started: ${this.stems.size} stems at ${this.config.bpm} BPM`);
+  }
+
+  /**
+   * Crossfade to another section's stem on the next beat (or bar)
+   * @param section - Section to switch to
+   * @returns Context time the crossfade starts at, or null if nothing changed
+   */
+  setSection(section: MusicSection): number | null {
+    if (!this.started || section === this.section) return null;
+
+    const at = this.nextBoundary();
+    const fade = this.config.crossfadeBeats * this.beatDuration;
+    this.stems.forEach(({ gain }, name) => {
+      const target = name === section ? 1 : 0;
+      const param = gain.gain;
+      // Hold the current level until the boundary, then ramp
+      param.cancelScheduledValues(this.ctx.currentTime);
+      param.setValueAtTime(param.value, this.ctx.currentTime);
+      param.setValueAtTime(param.value, at);
+      param.linearRampToValueAtTime(target, at + fade);
+    });
+
+    this.section = section;
+    return at;
+  }
+
+  /**
+   * Context time of the next beat or bar boundary
+   * Skips boundaries too close to schedule reliably
+   * @private
+   */
+  private nextBoundary(): number {
+    const grid = this.config.quantize === 'bar'
+      ? this.beatDuration * this.config.beatsPerBar
+      : this.beatDuration;
+    const lookahead = 0.05;
+    const elapsed = this.ctx.currentTime + lookahead - this.startTime;
+    return this.startTime + Math.max(0, Math.ceil(elapsed / grid)) * grid;
+  }
+
+  /**
+   * Ramp the overall music level
+   */
+  fadeTo(value: number, duration: number): void {
+    const now = this.ctx.currentTime;
+    const param = this.output.gain;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + Math.max(duration, 0.001));
+  }
+
+  /**
+   * Stop and disconnect every stem
+   */
+  dispose(): void {
+    this.stems.forEach(({ source, gain }) => {
+      if (this.started) source.stop();
+      source.disconnect();
+      gain.disconnect();
+    });
+    this.stems.clear();
+    this.output.disconnect();
+    this.started = false;
+    this.section = null;
+  }
+}
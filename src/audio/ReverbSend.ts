@@ -0,0 +1,186 @@
+import type { ReverbEnvironment, ReverbKeyframe } from './types';
+
+const ENVIRONMENTS: ReverbEnvironment[] = ['openRoad', 'closeUp', 'studio'];
+
+/**
+ * Shape of each procedural impulse response
+ * - duration: tail length in seconds
+ * - decay: exponential decay curve (higher = faster fall-off)
+ * - damping: how quickly highs die away relative to lows (0-1)
+ * - reflections: discrete early reflections as [time, level] pairs
+ */
+const IMPULSE_SHAPES: Record<ReverbEnvironment, {
+  duration: number;
+  decay: number;
+  damping: number;
+  reflections: [number, number][];
+}> = {
+  // Outdoors: sparse ground / verge reflections, short dark tail
+  openRoad: { duration: 1.2, decay: 4.5, damping: 0.8, reflections: [[0.011, 0.5], [0.037, 0.25]] },
+  // Next to the tank: dense, bright slap-back off the truck body
+  closeUp: { duration: 0.45, decay: 6, damping: 0.3, reflections: [[0.003, 0.7], [0.007, 0.5], [0.012, 0.35]] },
+  // Final reveal: smooth, longer studio hall
+  studio: { duration: 2.2, decay: 3, damping: 0.5, reflections: [[0.018, 0.3], [0.026, 0.25], [0.041, 0.2]] }
+};
+
+/**
+ * Default keyframes, aligned with the camera moves in App
+ * (chase shot far from the truck -> scan / X-ray close-ups -> top view)
+ */
+export const DEFAULT_REVERB_KEYFRAMES: ReverbKeyframe[] = [
+  { scroll: 0, environment: 'openRoad', wet: 0.3, preDelay: 0.06 },
+  { scroll: 0.15, environment: 'openRoad', wet: 0.25, preDelay: 0.05 },
+  { scroll: 0.35, environment: 'closeUp', wet: 0.12, preDelay: 0.012 },
+  { scroll: 0.75, environment: 'closeUp', wet: 0.1, preDelay: 0.008 },
+  { scroll: 1, environment: 'studio', wet: 0.3, preDelay: 0.025 }
+];
+
+/**
+ * ReverbSend - Procedural environment reverb
+ *
+ * Provides:
+ * - One ConvolverNode per environment (open road, close-up, studio)
+ *   fed by a shared pre-delay, so environments crossfade smoothly
+ * - Impulse responses generated in code (seeded noise, so offline
+ *   renders are repeatable) - no IR files to ship
+ * - Wet level, environment blend and pre-delay interpolated between
+ *   keyframes placed along the scroll timeline
+ *
+ * @example
+ * ```typescript
+ * const reverb = new ReverbSend(ctx, masterGain);
+ * mixer.addSend(reverb.input, ['engine', 'ambience', 'sfx']);
+ * reverb.update(scrollProgress); // Once per frame
+ * ```
+ */
+export class ReverbSend {
+  ctx: BaseAudioContext;
+  /** Send input - connect bus outputs here */
+  input: GainNode;
+  keyframes: ReverbKeyframe[];
+
+  private preDelay: DelayNode;
+  private wet: GainNode;
+  private environments = {} as Record<ReverbEnvironment, { convolver: ConvolverNode; gain: GainNode }>;
+  // Last scroll position applied (skips redundant automation)
+  private lastScroll = -1;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, keyframes: ReverbKeyframe[] = DEFAULT_REVERB_KEYFRAMES) {
+    this.ctx = ctx;
+    this.keyframes = [...keyframes].sort((a, b) => a.scroll - b.scroll);
+
+    this.input = ctx.createGain();
+    this.preDelay = ctx.createDelay(0.5);
+    this.wet = ctx.createGain();
+    this.wet.gain.value = 0;
+
+    this.input.connect(this.preDelay);
+    this.wet.connect(destination);
+
+    ENVIRONMENTS.forEach((name, i) => {
+      const convolver = ctx.createConvolver();
+      convolver.buffer = createImpulseResponse(ctx, name, i + 1);
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      this.preDelay.connect(convolver);
+      convolver.connect(gain);
+      gain.connect(this.wet);
+      this.environments[name] = { convolver, gain };
+    });
+
+    this.update(0, 0);
+  }
+
+  /**
+   * Interpolate wet level, environment blend and pre-delay for a scroll position
+   * @param scroll - Scroll timeline position (0-1)
+   * @param timeConstant - Smoothing time constant in seconds (default: 0.15)
+   */
+  update(scroll: number, timeConstant: number = 0.15): void {
+    const t = Math.min(Math.max(scroll, 0), 1);
+    if (Math.abs(t - this.lastScroll) < 0.0005 || this.keyframes.length === 0) return;
+    this.lastScroll = t;
+
+    // Surrounding keyframes
+    let next = this.keyframes.findIndex(k => k.scroll >= t);
+    if (next === -1) next = this.keyframes.length - 1;
+    const prev = Math.max(next - 1, 0);
+    const a = this.keyframes[prev];
+    const b = this.keyframes[next];
+    const mix = b.scroll === a.scroll ? 1 : (t - a.scroll) / (b.scroll - a.scroll);
+
+    const now = this.ctx.currentTime;
+    const tc = Math.max(timeConstant, 0.001);
+
+    ENVIRONMENTS.forEach(name => {
+      const level = (a.environment === name ? 1 - mix : 0) + (b.environment === name ? mix : 0);
+      // Equal-power blend between environments
+      this.environments[name].gain.gain.setTargetAtTime(Math.sqrt(level), now, tc);
+    });
+    this.wet.gain.setTargetAtTime(a.wet + (b.wet - a.wet) * mix, now, tc);
+    this.preDelay.delayTime.setTargetAtTime(a.preDelay + (b.preDelay - a.preDelay) * mix, now, tc);
+  }
+
+  /**
+   * Disconnect all reverb nodes
+   */
+  dispose(): void {
+    this.input.disconnect();
+    this.preDelay.disconnect();
+    ENVIRONMENTS.forEach(name => {
+      this.environments[name].convolver.disconnect();
+      this.environments[name].gain.disconnect();
+    });
+    this.wet.disconnect();
+  }
+}
+
+/**
+ * Generate a stereo impulse response: early reflections plus an
+ * exponentially decaying noise tail that darkens over time
+ * @private
+ */
+function createImpulseResponse(ctx: BaseAudioContext, environment: ReverbEnvironment, seed: number): AudioBuffer {
+  const { duration, decay, damping, reflections } = IMPULSE_SHAPES[environment];
+  const rate = ctx.sampleRate;
+  const length = Math.ceil(duration * rate);
+  const buffer = ctx.createBuffer(2, length, rate);
+
+  for (let c = 0; c < 2; c++) {
+    const data = buffer.getChannelData(c);
+    const random = mulberry32(seed * 7919 + c);
+    let low = 0;
+
+    for (let i = 0; i < length; i++) {
+      const progress = i / length;
+      const white = random() * 2 - 1;
+      // One-pole lowpass whose cutoff falls as the tail progresses
+      const coeff = 1 - Math.min(damping * progress * 0.98, 0.98);
+      low += (white - low) * coeff;
+      data[i] = low * Math.pow(1 - progress, decay);
+    }
+
+    // Early reflections, slightly offset per channel for width
+    reflections.forEach(([time, level]) => {
+      const index = Math.floor((time + c * 0.0013) * rate);
+      if (index < length) data[index] += level * (c === 0 ? 1 : -1);
+    });
+  }
+
+  return buffer;
+}
+
+/**
+ * Small seeded PRNG so impulse responses are identical between renders
+ * @private
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
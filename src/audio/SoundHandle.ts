@@ -0,0 +1,73 @@
+/**
+ * SoundHandle - Control handle for a single sound playback
+ *
+ * Returned by AudioSystem.play(). Wraps the buffer source and its
+ * dedicated gain node so callers can fade or stop the instance.
+ *
+ * @example
+ * ```typescript
+ * const handle = audioSystem.play('engineRun', { loop: true });
+ * handle?.fadeTo(0.15, 1.0);
+ * handle?.stop(); // Fades over the sound bank fadeOut (0.5s)
+ * ```
+ */
+export class SoundHandle {
+  id: string;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  ended = false;
+
+  /** Called once when playback ends (naturally or via stop) */
+  onEnded: (() => void) | null = null;
+
+  private ctx: BaseAudioContext;
+  // Default stop() fade (the sound's fadeOut setting)
+  private fadeOut: number;
+
+  constructor(id: string, ctx: BaseAudioContext, source: AudioBufferSourceNode, gain: GainNode, fadeOut: number = 0) {
+    this.id = id;
+    this.ctx = ctx;
+    this.source = source;
+    this.gain = gain;
+    this.fadeOut = fadeOut;
+
+    this.source.onended = () => {
+      if (this.ended) return;
+      this.ended = true;
+      this.source.disconnect();
+      this.gain.disconnect();
+      this.onEnded?.();
+    };
+  }
+
+  /**
+   * Ramp the instance gain to a target value
+   * @param value - Target gain
+   * @param duration - Ramp duration in seconds
+   */
+  fadeTo(value: number, duration: number): void {
+    if (this.ended) return;
+    const now = this.ctx.currentTime;
+    const param = this.gain.gain;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + Math.max(duration, 0.001));
+  }
+
+  /**
+   * Stop playback, optionally fading out first
+   * @param fadeOut - Fade-out time in seconds (default: the sound's fadeOut, 0 = immediate)
+   */
+  stop(fadeOut: number = this.fadeOut): void {
+    if (this.ended) return;
+    const now = this.ctx.currentTime;
+    if (fadeOut > 0) {
+      this.fadeTo(0, fadeOut);
+    }
+    try {
+      this.source.stop(now + fadeOut);
+    } catch {
+      // Source was never started or already stopped
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import type { AudioMixer } from './AudioMixer';
+import type { AudioBusName, SpatialEmitterName, SpatialConfig, PassByState } from './types';
+
+const DEFAULT_EMITTERS: Record<SpatialEmitterName, [number, number, number]> = {
+  horn: [1.1, 2.5, -10],    // Cab roof, front of truck
+  engine: [1.1, 0.5, -9],   // Engine bay under the cab
+  exhaust: [2.4, 3.5, -7.5], // Stack behind the cab
+  wheels: [1.1, -0.7, -5]   // Axle centre at road level
+};
+
+/**
+ * SpatialAudio - Positional audio for the truck
+ *
+ * Routes sounds through PannerNodes placed at points on the truck group
+ * (cab horn, engine, exhaust, wheels) and keeps the AudioListener pose in
+ * sync with the camera, so orbiting the truck changes stereo image and
+ * distance attenuation naturally.
+ *
+ * Also runs a pass-by model: emitter and listener velocities are derived
+ * from frame-to-frame positions, giving a Doppler pitch ratio per emitter
+ * (see getPassBy) and an air-absorption lowpass that closes with distance.
+ *
+ * @example
+ * ```typescript
+ * const spatial = new SpatialAudio(ctx, mixer);
+ * source.connect(spatial.getInput('exhaust', 'engine'));
+ *
+ * // In animation loop
+ * spatial.update(camera, truckGroup);
+ * ```
+ */
+export class SpatialAudio {
+  ctx: BaseAudioContext;
+  mixer: AudioMixer;
+  emitters: Record<SpatialEmitterName, THREE.Vector3>;
+
+  // World positions from the last update (for other systems, e.g. Doppler)
+  worldPositions: Map<SpatialEmitterName, THREE.Vector3> = new Map();
+  listenerPosition = new THREE.Vector3();
+  velocities: Map<SpatialEmitterName, THREE.Vector3> = new Map();
+  listenerVelocity = new THREE.Vector3();
+
+  private config: Required<Omit<SpatialConfig, 'emitters'>>;
+  // One panner (+ air-absorption filter) per emitter/bus pair
+  private panners: Map<string, { emitter: SpatialEmitterName; node: PannerNode; filter: BiquadFilterNode }> = new Map();
+  private lastUpdateTime: number | null = null;
+
+  // Scratch objects (avoid per-frame allocation)
+  private forward = new THREE.Vector3();
+  private up = new THREE.Vector3();
+  private prevListener = new THREE.Vector3();
+  private toListener = new THREE.Vector3();
+
+  constructor(ctx: BaseAudioContext, mixer: AudioMixer, config: SpatialConfig = {}) {
+    this.ctx = ctx;
+    this.mixer = mixer;
+    this.config = {
+      refDistance: config.refDistance ?? 10,
+      rolloffFactor: config.rolloffFactor ?? 0.5,
+      dopplerFactor: config.dopplerFactor ?? 0.5,
+      speedOfSound: config.speedOfSound ?? 274
+    };
+
+    const offsets = { ...DEFAULT_EMITTERS, ...config.emitters };
+    this.emitters = {
+      horn: new THREE.Vector3(...offsets.horn),
+      engine: new THREE.Vector3(...offsets.engine),
+      exhaust: new THREE.Vector3(...offsets.exhaust),
+      wheels: new THREE.Vector3(...offsets.wheels)
+    };
+  }
+
+  /**
+   * Get the input node for a sound placed at an emitter
+   * @param emitter - Emitter on the truck
+   * @param bus - Mixer bus the panner feeds
+   */
+  getInput(emitter: SpatialEmitterName, bus: AudioBusName): PannerNode {
+    const key = `${emitter}:${bus}`;
+    let panner = this.panners.get(key);
+
+    if (!panner) {
+      const node = this.ctx.createPanner();
+      node.panningModel = 'HRTF';
+      node.distanceModel = 'inverse';
+      node.refDistance = this.config.refDistance;
+      node.rolloffFactor = this.config.rolloffFactor;
+      node.maxDistance = 500;
+
+      const pos = this.worldPositions.get(emitter);
+      if (pos) setPannerPosition(node, pos, this.ctx.currentTime);
+
+      // Air absorption - high frequencies fade with distance
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = 20000;
+
+      node.connect(filter);
+      filter.connect(this.mixer.getInput(bus));
+      panner = { emitter, node, filter };
+      this.panners.set(key, panner);
+    }
+
+    return panner.node;
+  }
+
+  /**
+   * Update listener pose from the camera and emitter positions from the truck
+   * Call once per frame after the camera has moved
+   * @param camera - Active camera (listener)
+   * @param anchor - Truck group the emitter offsets are relative to
+   */
+  update(camera: THREE.Camera, anchor: THREE.Object3D): void {
+    const now = this.ctx.currentTime;
+    const listener = this.ctx.listener;
+
+    // Frame time from the audio clock; skip velocities after stalls
+    const dt = this.lastUpdateTime === null ? 0 : now - this.lastUpdateTime;
+    const hasVelocity = dt > 0 && dt < 0.25;
+    this.lastUpdateTime = now;
+
+    camera.updateMatrixWorld();
+    this.prevListener.copy(this.listenerPosition);
+    camera.getWorldPosition(this.listenerPosition);
+    if (hasVelocity) {
+      this.listenerVelocity.subVectors(this.listenerPosition, this.prevListener).divideScalar(dt);
+    } else {
+      this.listenerVelocity.set(0, 0, 0);
+    }
+    camera.getWorldDirection(this.forward);
+    this.up.set(0, 1, 0).applyQuaternion(camera.quaternion);
+
+    if (listener.positionX) {
+      listener.positionX.setTargetAtTime(this.listenerPosition.x, now, 0.02);
+      listener.positionY.setTargetAtTime(this.listenerPosition.y, now, 0.02);
+      listener.positionZ.setTargetAtTime(this.listenerPosition.z, now, 0.02);
+      listener.forwardX.setTargetAtTime(this.forward.x, now, 0.02);
+      listener.forwardY.setTargetAtTime(this.forward.y, now, 0.02);
+      listener.forwardZ.setTargetAtTime(this.forward.z, now, 0.02);
+      listener.upX.setTargetAtTime(this.up.x, now, 0.02);
+      listener.upY.setTargetAtTime(this.up.y, now, 0.02);
+      listener.upZ.setTargetAtTime(this.up.z, now, 0.02);
+    } else {
+      // Legacy API (Firefox)
+      listener.setPosition(this.listenerPosition.x, this.listenerPosition.y, this.listenerPosition.z);
+      listener.setOrientation(this.forward.x, this.forward.y, this.forward.z, this.up.x, this.up.y, this.up.z);
+    }
+
+    anchor.updateMatrixWorld();
+    (Object.keys(this.emitters) as SpatialEmitterName[]).forEach(name => {
+      let world = this.worldPositions.get(name);
+      let velocity = this.velocities.get(name);
+      if (!world || !velocity) {
+        world = new THREE.Vector3();
+        velocity = new THREE.Vector3();
+        this.worldPositions.set(name, world);
+        this.velocities.set(name, velocity);
+        anchor.localToWorld(world.copy(this.emitters[name]));
+        return;
+      }
+      // velocity temporarily holds the previous position
+      velocity.copy(world);
+      anchor.localToWorld(world.copy(this.emitters[name]));
+      if (hasVelocity) {
+        velocity.subVectors(world, velocity).divideScalar(dt);
+      } else {
+        velocity.set(0, 0, 0);
+      }
+    });
+
+    this.panners.forEach(({ emitter, node, filter }) => {
+      setPannerPosition(node, this.worldPositions.get(emitter)!, now);
+      filter.frequency.setTargetAtTime(this.getPassBy(emitter).cutoff, now, 0.05);
+    });
+  }
+
+  /**
+   * Pass-by state of an emitter: distance, Doppler pitch ratio and
+   * air-absorption cutoff, from the last update()
+   * @param emitter - Emitter on the truck
+   */
+  getPassBy(emitter: SpatialEmitterName): PassByState {
+    const world = this.worldPositions.get(emitter);
+    const velocity = this.velocities.get(emitter);
+    if (!world || !velocity) {
+      return { distance: 0, pitch: 1, cutoff: 20000 };
+    }
+
+    this.toListener.subVectors(this.listenerPosition, world);
+    const distance = this.toListener.length();
+    const { dopplerFactor, speedOfSound } = this.config;
+
+    // Classic Doppler: f' = f * (c - vL.u) / (c - vS.u), u = source -> listener
+    let pitch = 1;
+    if (distance > 0.001 && dopplerFactor > 0) {
+      this.toListener.divideScalar(distance);
+      const maxSpeed = speedOfSound * 0.5; // Keep well below the sound barrier
+      const vS = THREE.MathUtils.clamp(velocity.dot(this.toListener) * dopplerFactor, -maxSpeed, maxSpeed);
+      const vL = THREE.MathUtils.clamp(this.listenerVelocity.dot(this.toListener) * dopplerFactor, -maxSpeed, maxSpeed);
+      pitch = (speedOfSound - vL) / (speedOfSound - vS);
+    }
+
+    // Air absorption: ~20kHz up close, closing towards ~2kHz far away
+    const cutoff = 2000 + 18000 / (1 + distance / 25);
+
+    return { distance, pitch, cutoff };
+  }
+
+  /**
+   * Disconnect all panners
+   */
+  dispose(): void {
+    this.panners.forEach(({ node, filter }) => {
+      node.disconnect();
+      filter.disconnect();
+    });
+    this.panners.clear();
+  }
+}
+
+/**
+ * Set panner position (AudioParam API with legacy fallback)
+ * @private
+ */
+function setPannerPosition(node: PannerNode, pos: THREE.Vector3, now: number): void {
+  if (node.positionX) {
+    node.positionX.setTargetAtTime(pos.x, now, 0.02);
+    node.positionY.setTargetAtTime(pos.y, now, 0.02);
+    node.positionZ.setTargetAtTime(pos.z, now, 0.02);
+  } else {
+    node.setPosition(pos.x, pos.y, pos.z);
+  }
+}
@@ -0,0 +1,64 @@
+import type { SubtitleCue } from './types';
+
+/**
+ * WebVTT Parser
+ *
+ * Minimal parser for narration subtitle tracks:
+ * - Cue timings in `hh:mm:ss.ttt` or `mm:ss.ttt` form (cue settings are ignored)
+ * - Optional cue identifiers and multi-line cue text
+ * - NOTE, STYLE and REGION blocks are skipped
+ * - Inline tags like `<v Narrator>` or `<i>` are stripped
+ *
+ * @param text - Contents of a .vtt file
+ * @returns Cues sorted by start time
+ *
+ * @example
+ * ```typescript
+ * const cues = parseWebVTT(await (await fetch('/audio/narration/intro.vtt')).text());
+ * findSubtitle(cues, 2.4)?.text; // "Meet the fleet."
+ * ```
+ */
+export function parseWebVTT(text: string): SubtitleCue[] {
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const [startText, rest] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null) return;
+
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .map(line => line.replace(/<[^>]+>/g, '').trim())
+      .join('\n');
+    cues.push({ start, end, text: cueText });
+  });
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the cue showing at a time
+ * @param cues - Parsed cues
+ * @param time - Seconds into the clip
+ * @returns Active cue, or null between cues
+ */
+export function findSubtitle(cues: SubtitleCue[], time: number): SubtitleCue | null {
+  return cues.find(cue => time >= cue.start && time < cue.end) ?? null;
+}
+
+/**
+ * Parse a WebVTT timestamp to seconds
+ * @private
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
@@ -4,10 +4,13 @@
  * Type definitions for the Translink audio engine system
  */
 
+import type { AudioSystem } from './AudioSystem';
+
 export interface EngineRefs {
   rumbleFilter?: BiquadFilterNode;
   pistonOsc?: OscillatorNode;
   pistonLFO?: OscillatorNode;
+  pistonLevel?: GainNode;
 }
 
 export interface WindRefs {
@@ -17,8 +20,339 @@ export interface WindRefs {
 
 export type NoiseType = 'pink' | 'brown';
 
+/**
+ * Vehicle parameters driving the engine and ambience model
+ */
+export interface VehicleState {
+  /** Road speed in KM/H (0-160) */
+  speed: number;
+  /** Throttle position (0.0-1.0) */
+  throttle: number;
+  /** Engine load (0.0-1.0) - payload / gradient demand */
+  load: number;
+}
+
+/**
+ * Mixer bus identifiers
+ */
+export type AudioBusName = 'engine' | 'ambience' | 'sfx' | 'ui' | 'voice' | 'music';
+
+/**
+ * Mixer bus state and nodes
+ * Signal flow: sources -> input (volume/mute/solo) -> duck -> master
+ */
+export interface MixerBus {
+  input: GainNode;
+  duck: GainNode;
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+/**
+ * Automatic ducking of background buses while foreground sounds play
+ */
+export interface DuckingConfig {
+  /** Buses that get ducked (default: ['engine']) */
+  buses?: AudioBusName[];
+  /** Gain reduction 0.0-1.0 (default: 0.6 = duck to 40%) */
+  amount?: number;
+  /** Attack time constant in seconds (default: 0.05) */
+  attack?: number;
+  /** Release time constant in seconds (default: 0.4) */
+  release?: number;
+}
+
+/**
+ * Positional emitters on the truck
+ */
+export type SpatialEmitterName = 'horn' | 'engine' | 'exhaust' | 'wheels';
+
+/**
+ * Positional (3D) audio configuration
+ */
+export interface SpatialConfig {
+  /** Distance at which attenuation starts, in scene units (default: 10) */
+  refDistance?: number;
+  /** How quickly volume drops with distance (default: 0.5) */
+  rolloffFactor?: number;
+  /** Emitter offsets in truck-group local space */
+  emitters?: Partial<Record<SpatialEmitterName, [number, number, number]>>;
+  /** Doppler exaggeration, 0 disables pitch shift (default: 0.5) */
+  dopplerFactor?: number;
+  /** Speed of sound in scene units per second (default: 274 = 343 m/s at 1.25 m/unit) */
+  speedOfSound?: number;
+}
+
+/**
+ * Pass-by state of an emitter relative to the listener
+ */
+export interface PassByState {
+  /** Distance to the listener in scene units */
+  distance: number;
+  /** Doppler pitch ratio (1.0 = no shift) */
+  pitch: number;
+  /** Air-absorption lowpass cutoff in Hz */
+  cutoff: number;
+}
+
+/**
+ * Sound bank entry (see src/config/soundBank.json)
+ */
+export interface SoundDefinition {
+  /** Unique id used with AudioSystem.play() */
+  id: string;
+  /** URL of the audio file (relative to public/) */
+  url: string;
+  /** Mixer bus to route through (default: 'sfx') */
+  bus?: AudioBusName;
+  /** Loop playback (default: false) */
+  loop?: boolean;
+  /** Default playback gain (default: 1.0) */
+  gain?: number;
+  /** Default fade-in time in seconds (default: 0) */
+  fadeIn?: number;
+  /** Default fade-out time in seconds, applied before the end of one-shots (default: 0) */
+  fadeOut?: number;
+  /** Positional emitter on the truck (default: none = non-positional) */
+  emitter?: SpatialEmitterName;
+  /** Nominal engine RPM of the recording - tags it as an engine sampler layer */
+  rpm?: number;
+  /** Loop start in seconds (default: auto-detected zero crossing) */
+  loopStart?: number;
+  /** Loop end in seconds (default: auto-detected zero crossing) */
+  loopEnd?: number;
+  /** Story section of a music stem - tags it as a MusicPlayer stem */
+  stem?: MusicSection;
+  /** URL of a WebVTT subtitle track (narration clips) */
+  subtitles?: string;
+}
+
+/**
+ * Timed subtitle parsed from a WebVTT track
+ */
+export interface SubtitleCue {
+  /** Start time in seconds into the clip */
+  start: number;
+  /** End time in seconds into the clip */
+  end: number;
+  text: string;
+}
+
+/**
+ * Story sections with their own music stem
+ */
+export type MusicSection = 'intro' | 'velocity' | 'sensorHead' | 'explodedView' | 'topView';
+
+/**
+ * Tempo and crossfade settings for the music stems
+ */
+export interface MusicConfig {
+  /** Tempo shared by every stem (default: 90) */
+  bpm?: number;
+  /** Beats per bar (default: 4) */
+  beatsPerBar?: number;
+  /** Grid section changes snap to (default: 'beat') */
+  quantize?: 'beat' | 'bar';
+  /** Crossfade length in beats (default: 2) */
+  crossfadeBeats?: number;
+}
+
+/**
+ * Procedural reverb environments
+ */
+export type ReverbEnvironment = 'openRoad' | 'closeUp' | 'studio';
+
+/**
+ * Reverb settings at a point on the scroll timeline
+ */
+export interface ReverbKeyframe {
+  /** Scroll position (0-1) */
+  scroll: number;
+  environment: ReverbEnvironment;
+  /** Send return level (0.0-1.0) */
+  wet: number;
+  /** Pre-delay in seconds */
+  preDelay: number;
+}
+
+/**
+ * Environment reverb send configuration
+ */
+export interface ReverbConfig {
+  /** Buses sent to the reverb (default: engine, ambience, sfx) */
+  buses?: AudioBusName[];
+  /** Keyframes along the scroll timeline (default: DEFAULT_REVERB_KEYFRAMES) */
+  keyframes?: ReverbKeyframe[];
+}
+
+/**
+ * Engine sampler layer (decoded recording + nominal RPM)
+ */
+export interface EngineLayer {
+  id: string;
+  buffer: AudioBuffer;
+  rpm: number;
+  /** Layer trim applied on top of the crossfade (sound bank gain, default: 1) */
+  gain?: number;
+  loopStart?: number;
+  loopEnd?: number;
+}
+
+/**
+ * Per-playback overrides for AudioSystem.play()
+ */
+export interface PlayOptions {
+  gain?: number;
+  loop?: boolean;
+  fadeIn?: number;
+  fadeOut?: number;
+  bus?: AudioBusName;
+  /** Delay before playback starts, in seconds (default: 0) */
+  delay?: number;
+  /** Playback rate (default: 1.0) */
+  playbackRate?: number;
+  /** Positional emitter override; null plays non-positional */
+  emitter?: SpatialEmitterName | null;
+}
+
 export interface AudioSystemConfig {
   masterVolume?: number;
   engineVolume?: number;
   ambienceVolume?: number;
+  sfxVolume?: number;
+  uiVolume?: number;
+  voiceVolume?: number;
+  musicVolume?: number;
+  ducking?: DuckingConfig;
+  spatial?: SpatialConfig;
+  music?: MusicConfig;
+  reverb?: ReverbConfig;
+  /** Horn presets (default: src/config/hornPresets.json) */
+  hornPresets?: HornPreset[];
+  /** Id of the horn preset to use (default: first preset) */
+  horn?: string;
+  /** Sound bank manifest (default: src/config/soundBank.json) */
+  soundBank?: SoundDefinition[];
+}
+
+/**
+ * Single oscillator in a horn preset
+ */
+export interface HornOscillator {
+  type: OscillatorType;
+  /** Frequency in Hz */
+  frequency: number;
+  /** Relative level in the chord (default: 1.0) */
+  gain?: number;
+}
+
+/**
+ * Horn preset (see src/config/hornPresets.json)
+ */
+export interface HornPreset {
+  id: string;
+  name?: string;
+  /** Chord voices */
+  oscillators: HornOscillator[];
+  /** Waveshaper drive 0.0-1.0 (default: 0 = clean) */
+  distortion?: number;
+  /** Lowpass cutoff after the waveshaper in Hz (default: none) */
+  cutoff?: number;
+  /** Blast level (default: 0.2) */
+  level?: number;
+  /** Blast attack in seconds (default: 0.05) */
+  attack?: number;
+  /** Blast release in seconds (default: 0.1) */
+  release?: number;
+  /** Long blast length "—" in seconds, including attack and release (default: 1.0) */
+  long?: number;
+  /** Short blast length "·" in seconds (default: 0.6) */
+  short?: number;
+  /** Pause per space in a pattern, in seconds (default: 0.2) */
+  gap?: number;
+  /** Default blast pattern (default: "— ·") */
+  pattern?: string;
+}
+
+/**
+ * Scheduled horn blast, relative to the pattern start
+ */
+export interface HornBlast {
+  start: number;
+  end: number;
+}
+
+/**
+ * Story position a cue is attached to:
+ * - scroll: fraction (0-1) of the active scroll sequence
+ * - time: seconds into the extended-intro timeline
+ */
+export type CuePosition = { scroll: number } | { time: number };
+
+/**
+ * Crossing direction that fires a cue
+ */
+export type CueDirection = 'forward' | 'backward' | 'both';
+
+/**
+ * Audio cue attached to a point in the story
+ */
+export interface AudioCue {
+  id: string;
+  at: CuePosition;
+  /** Direction of travel that fires the cue (default: 'forward') */
+  direction?: CueDirection;
+  /** Distance back past `at` required to re-arm (default: 0.01 scroll / 0.1s time) */
+  hysteresis?: number;
+  /** Max distance past `at` a blocked cue may still fire late (default: unlimited) */
+  window?: number;
+  /** Guard evaluated before firing; the cue stays armed while it returns false */
+  when?: () => boolean;
+  /** Action to run, e.g. an AudioSystem trigger */
+  cue: () => void;
+}
+
+/**
+ * AudioSystem lifecycle states
+ * uninitialized -> loading -> ready -> running <-> suspended -> disposed
+ */
+export type AudioLifecycleState = 'uninitialized' | 'loading' | 'ready' | 'running' | 'suspended' | 'disposed';
+
+/**
+ * AudioSystem events and their payloads
+ */
+export interface AudioSystemEvents {
+  statechange: { from: AudioLifecycleState; to: AudioLifecycleState };
+}
+
+/**
+ * Built-in AudioSystem triggers usable in offline cue lists
+ */
+export type OfflineTrigger = 'engineStart' | 'engineStop' | 'airBrake' | 'horn' | 'hornOnly' | 'chirp' | 'reduceEngine';
+
+/**
+ * Scripted cue for offline rendering
+ */
+export interface OfflineCue {
+  /** Render time in seconds */
+  time: number;
+  /** Built-in trigger name, or a custom action run against the offline AudioSystem */
+  trigger: OfflineTrigger | ((audio: AudioSystem) => void);
+}
+
+/**
+ * Offline render settings
+ */
+export interface OfflineRenderOptions {
+  /** Total render length in seconds */
+  duration: number;
+  /** Sample rate (default: 44100) */
+  sampleRate?: number;
+  /** Output channels (default: 2) */
+  channels?: number;
+  /** Pre-decoded buffers by sound bank id (skips fetching, e.g. from a live AudioSystem) */
+  buffers?: Map<string, AudioBuffer>;
+  /** AudioSystem configuration for the render */
+  config?: AudioSystemConfig;
 }
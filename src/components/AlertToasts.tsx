@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import type { AlertManager } from '../alerts/AlertManager';
+import type { Alert } from '../alerts/types';
+
+interface AlertToastsProps {
+  alerts: AlertManager | null;
+  /** Time info toasts stay visible in ms (warning / critical stay until acknowledged) */
+  infoTimeout?: number;
+  /** Announce toasts to screen readers (turn off when another live region announces alerts) */
+  announce?: boolean;
+}
+
+/**
+ * AlertToasts Component
+ *
+ * HUD toasts for unacknowledged alerts:
+ * - Colored by severity (info green, warning amber, critical red)
+ * - Acknowledge button per toast (hides it here and on the display banner)
+ * - Info toasts hide themselves after infoTimeout
+ * - Announced to screen readers (critical alerts assertively) unless announce is false
+ *
+ * @example
+ * ```typescript
+ * <AlertToasts alerts={alertManager} />
+ * ```
+ */
+export const AlertToasts: React.FC<AlertToastsProps> = ({ alerts, infoTimeout = 6000, announce = true }) => {
+  const [items, setItems] = useState<Alert[]>([]);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!alerts) return;
+    setItems(alerts.getActive());
+    return alerts.on('change', ({ alerts: active }) => setItems(active));
+  }, [alerts]);
+
+  // Info toasts hide after a while without acknowledging the alert
+  useEffect(() => {
+    const timers = items
+      .filter(alert => alert.severity === 'info' && !alert.acknowledged && !hidden.has(alert.id))
+      .map(alert => window.setTimeout(() => {
+        setHidden(prev => new Set(prev).add(alert.id));
+      }, Math.max(0, alert.timestamp + infoTimeout - Date.now())));
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+  }, [items, hidden, infoTimeout]);
+
+  const visible = items.filter(alert => !alert.acknowledged && !hidden.has(alert.id));
+
+  return (
+    <div className="alert-toasts" aria-live={announce ? 'polite' : 'off'}>
+      {visible.map(alert => (
+        <div
+          key={alert.id}
+          className={`alert-toast alert-toast-${alert.severity}`}
+          role={announce ? (alert.severity === 'critical' ? 'alert' : 'status') : undefined}
+        >
+          <div className="alert-toast-body">
+            <div className="alert-toast-code">
+              {alert.code}
+              <time dateTime={new Date(alert.timestamp).toISOString()}>
+                {new Date(alert.timestamp).toLocaleTimeString()}
+              </time>
+            </div>
+            <div className="alert-toast-message">{alert.message}</div>
+          </div>
+          <button
+            type="button"
+            className="alert-toast-ack"
+            onClick={() => alerts?.acknowledge(alert.id)}
+          >
+            ACK
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,13 @@
 import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 
+// Vertical extent of the scan sweep in tank space: top of the sensor head down
+// to the bottom of the truck's Fuel_tank mesh (the cage ends at -0.65)
+const SCAN_TOP = 0.75;
+const SCAN_BOTTOM = -0.9;
+// Peak rim opacity (scaled by the sweep's edge fade)
+const SCAN_RIM_OPACITY = 0.9;
+
 interface FuelSensorProps {
   scene: THREE.Scene;
   truckGroup: THREE.Group;
@@ -13,6 +20,7 @@ interface FuelSensorProps {
     probeTube: THREE.Mesh;
     cageGroup: THREE.Group;
     tankGroup: THREE.Group;
+    scanPlane: THREE.Mesh;
   }) => void;
 }
 
@@ -24,6 +32,9 @@ interface FuelSensorProps {
  * 2. Probe Tube (WHITE) - Metallic measurement probe
  * 3. Cage/Filter (GREEN) - Protective cage with rings
  * 
+ * Also includes a hidden glowing scan plane that sweeps down the
+ * assembly and fuel tank during the SENSOR HEAD phase (see updateFuelSensorScan).
+ * 
  * @param scene - Three.js scene
  * @param truckGroup - Parent truck group to attach sensor to
  * @param position - Position relative to truck [x, y, z] (default: [3.1, 0.6, -5])
@@ -201,13 +212,46 @@ export const FuelSensor = ({
       cageGroup.add(ring);
     }
 
+    // --- SCAN PLANE (CYAN glow) ---
+    // Horizontal disc slicing through the assembly, hidden until a scan runs
+    const scanPlane = new THREE.Mesh(
+      new THREE.CircleGeometry(0.3, 48),
+      new THREE.MeshBasicMaterial({
+        color: 0x22d3ee,
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      })
+    );
+    scanPlane.rotation.x = -Math.PI / 2;
+    scanPlane.position.y = SCAN_TOP;
+    scanPlane.visible = false;
+
+    // Bright rim so the sweep reads at a distance
+    const scanRim = new THREE.Mesh(
+      new THREE.RingGeometry(0.28, 0.3, 48),
+      new THREE.MeshBasicMaterial({
+        color: 0xa5f3fc,
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      })
+    );
+    scanPlane.add(scanRim);
+    tankGroup.add(scanPlane);
+
     // Callback with component references (for SVG path connections)
     if (onComponentsCreated) {
       onComponentsCreated({
         sensorHeadGroup,
         probeTube,
         cageGroup,
-        tankGroup
+        tankGroup,
+        scanPlane
       });
     }
 
@@ -237,3 +281,47 @@ export const FuelSensor = ({
 
   return null; // This is a Three.js component, no DOM rendering
 };
+
+/**
+ * Update the scan plane sweep
+ * Helper function to drive the plane created by FuelSensor
+ * 
+ * - Moves the plane from the top of the sensor head to the bottom of the tank
+ * - Pulses its glow with the same 60 rad/s flutter as the scanner noise
+ *   (AudioSystem.updateScannerVolume) so sound and light stay in sync
+ * 
+ * @param scanPlane - Scan plane from onComponentsCreated
+ * @param progress - Sweep progress (0-1), or null to hide the plane
+ * @param time - Current elapsed time in seconds
+ * 
+ * @example
+ * ```typescript
+ * // In animation loop
+ * const progress = (time - scanStart) / SCAN_DURATION;
+ * updateFuelSensorScan(scanPlaneRef.current, progress < 1 ? progress : null, time);
+ * audioSystem.updateScannerVolume(progress < 1, time, progress);
+ * ```
+ */
+export function updateFuelSensorScan(
+  scanPlane: THREE.Mesh,
+  progress: number | null,
+  time: number
+): void {
+  if (progress === null || progress < 0 || progress >= 1) {
+    scanPlane.visible = false;
+    return;
+  }
+  
+  // Ease in/out so the sweep settles at both ends
+  const easeT = progress * progress * (3 - 2 * progress);
+  scanPlane.position.y = SCAN_TOP + (SCAN_BOTTOM - SCAN_TOP) * easeT;
+  
+  // Fade in/out over the first and last 10% of the sweep
+  const edgeFade = Math.min(progress / 0.1, (1 - progress) / 0.1, 1);
+  const flutter = 0.75 + Math.sin(time * 60) * 0.25;
+  (scanPlane.material as THREE.MeshBasicMaterial).opacity = 0.35 * flutter * edgeFade;
+  // The rim is the plane's only child
+  const rim = scanPlane.children[0] as THREE.Mesh | undefined;
+  if (rim) (rim.material as THREE.MeshBasicMaterial).opacity = SCAN_RIM_OPACITY * edgeFade;
+  scanPlane.visible = true;
+}
@@ -1,7 +1,12 @@
 import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import { createTelematicsTexture } from '../textures/TelematicsTexture';
-import type { TelematicsData } from '../textures/types';
+import { TelematicsRenderer } from '../textures/TelematicsTexture';
+import { getCanvasSize, getLayout, pickLayout, DASHBOARD_PAGES } from '../textures/DashboardLayout';
+import type { TelematicsData, DashboardLayout, DashboardPage, DashboardTheme } from '../textures/types';
+import type { AlertManager } from '../alerts/AlertManager';
+
+const TAP_DISTANCE = 10; // px a press may move and still count as a tap
+const TAP_DURATION = 500; // ms a press may last and still count as a tap
 
 interface TelematicsDisplayProps {
   scene: THREE.Scene;
@@ -10,6 +15,12 @@ interface TelematicsDisplayProps {
   rotation?: [number, number, number];
   size?: [number, number];
   initialData?: TelematicsData;
+  layout?: DashboardLayout | string;
+  pages?: DashboardPage[];
+  theme?: DashboardTheme | string;
+  alerts?: AlertManager;
+  camera?: THREE.Camera;
+  domElement?: HTMLElement;
   onMaterialCreated?: (material: THREE.MeshBasicMaterial) => void;
   onMeshCreated?: (mesh: THREE.Mesh) => void;
   onGroupCreated?: (group: THREE.Group) => void;
@@ -20,7 +31,16 @@ interface TelematicsDisplayProps {
  * 
  * Creates a 3D display screen showing telematics data with:
  * - Configurable position, rotation, and size
- * - Dynamic texture updates
+ * - Page carousel from src/config/dashboardPages.json, or a single fixed layout
+ * - Layouts from src/config/dashboardLayouts.json, picked by aspect ratio
+ * - Dynamic texture updates (one persistent canvas, only changed widgets redraw)
+ * - Drawing off the main thread in a Web Worker where OffscreenCanvas is supported
+ * - Flashing alert banner and alert list when given an AlertManager
+ * - Dark, light and high-contrast themes from src/config/dashboardThemes.json;
+ *   changing the theme prop redraws in place (same texture)
+ * - Pointer interaction (mouse and touch) when given the camera and canvas:
+ *   hovering outlines tappable widgets, tapping switches page, expands the
+ *   fuel chart or acknowledges the top alert
  * - Proper material settings for display screens
  * - Material reference for external updates
  * 
@@ -30,6 +50,12 @@ interface TelematicsDisplayProps {
  * @param rotation - Display rotation [x, y, z] (default: [0, -Math.PI/2, 0])
  * @param size - Display size [width, height] (default: [9, 5])
  * @param initialData - Initial telematics data to display
+ * @param layout - Layout spec or built-in layout id; shows only that layout (default: carousel)
+ * @param pages - Carousel pages (default: src/config/dashboardPages.json)
+ * @param theme - Theme or built-in theme id (default: 'dark')
+ * @param alerts - Alert manager; telemetry rules run on every update
+ * @param camera - Camera the scene is rendered with (enables pointer interaction)
+ * @param domElement - WebGL canvas receiving pointer events (enables pointer interaction)
  * @param onMaterialCreated - Callback with material reference for updates
  * 
  * @example
@@ -52,6 +78,12 @@ export const TelematicsDisplay = ({
   rotation = [1.5707963267948966, -1.5707963267948966, 0],
   size = [7.5, 4],
   initialData = { speed: 85, fuelLevel: 0.65 },
+  layout,
+  pages = DASHBOARD_PAGES,
+  theme,
+  alerts,
+  camera,
+  domElement,
   onMaterialCreated,
   onMeshCreated,
   onGroupCreated
@@ -66,16 +98,25 @@ export const TelematicsDisplay = ({
     const telematicsGroup = new THREE.Group();
     displayGroupRef.current = telematicsGroup;
     
-    // Create initial texture
-    const telematicsTex = createTelematicsTexture(initialData);
+    // Create persistent renderer (one canvas + texture for the display's lifetime)
+    // Canvas matches the screen's aspect ratio so widgets aren't stretched
+    const [canvasWidth, canvasHeight] = getCanvasSize(size);
+    const renderer = new TelematicsRenderer(initialData, {
+      ...(layout ? { layout: resolveLayoutProp(layout, size) } : { pages }),
+      width: canvasWidth,
+      height: canvasHeight,
+      theme,
+      alerts
+    });
     
     // Create material with display-optimized settings
     const telematicsMat = new THREE.MeshBasicMaterial({ 
-      map: telematicsTex,
+      map: renderer.texture,
       transparent: true,
       opacity: 1.0,
       side: THREE.DoubleSide
     });
+    telematicsMat.userData.telematicsRenderer = renderer;
     
     materialRef.current = telematicsMat;
     
@@ -87,6 +128,11 @@ export const TelematicsDisplay = ({
     
     // Add to group
     telematicsGroup.add(displayScreen);
+
+    // Raycast pointer events onto the screen
+    const detachPointer = camera && domElement
+      ? attachPointerInteraction(displayScreen, renderer, camera, domElement)
+      : null;
     
     // Apply transformations to group
     // NOTE: Position is in WORLD COORDINATES (not relative to truck)
@@ -136,16 +182,28 @@ export const TelematicsDisplay = ({
           }
         });
       }
+      detachPointer?.();
+      renderer.dispose();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scene, truckGroup]);
 
+  // Theme changes redraw the existing display instead of recreating it
+  useEffect(() => {
+    if (materialRef.current && theme) {
+      setTelematicsTheme(materialRef.current, theme);
+    }
+  }, [theme]);
+
   return null; // This is a Three.js component, no DOM rendering
 };
 
 /**
  * Update telematics display with new data
  * Helper function to update the display material
+ * Reuses the material's renderer, so only widgets whose values changed are
+ * redrawn and the texture is re-uploaded only when needed. Each fuel level
+ * is also recorded in the renderer's fuel history (refuel / theft markers).
  * 
  * @param material - The display material to update
  * @param data - New telematics data
@@ -165,14 +223,191 @@ export function updateTelematicsDisplay(
   material: THREE.MeshBasicMaterial,
   data: TelematicsData
 ): void {
-  const newTexture = createTelematicsTexture(data);
-  
-  // Dispose old texture
-  if (material.map) {
-    material.map.dispose();
+  getTelematicsRenderer(material).update(data);
+}
+
+/**
+ * Match the display texture to a new screen size
+ * Resizes the canvas to the new aspect ratio, keeping the same texture
+ * object. Carousel pages switch to their layout closest to the new aspect
+ * ratio; pass a layout to show a single fixed layout instead.
+ * 
+ * @param material - The display material to update
+ * @param size - Display size [width, height] in world units
+ * @param layout - Layout spec or built-in layout id (default: keep the current pages)
+ * 
+ * @example
+ * ```typescript
+ * mesh.geometry = new THREE.PlaneGeometry(size[0], size[1]);
+ * resizeTelematicsDisplay(telematicsMatRef.current, size);
+ * ```
+ */
+export function resizeTelematicsDisplay(
+  material: THREE.MeshBasicMaterial,
+  size: [number, number],
+  layout?: DashboardLayout | string
+): void {
+  const renderer = getTelematicsRenderer(material);
+  const [width, height] = getCanvasSize(size);
+  renderer.setSize(width, height);
+  if (layout) {
+    renderer.setLayout(resolveLayoutProp(layout, size));
   }
+}
+
+/**
+ * Advance the display's page carousel (page dwell times and transitions)
+ * Call once per frame.
+ * 
+ * @param material - The display material to update
+ */
+export function tickTelematicsDisplay(material: THREE.MeshBasicMaterial): void {
+  getTelematicsRenderer(material).tick();
+}
+
+/**
+ * Hold the display on one page, or let it cycle again
+ * 
+ * @param material - The display material to update
+ * @param pageId - Page to pin, e.g. 'fuelDetail' (null to unpin)
+ * 
+ * @example
+ * ```typescript
+ * // Story phase shows the fuel sensor
+ * pinTelematicsPage(telematicsMatRef.current, phase === 1 ? 'fuelDetail' : null);
+ * ```
+ */
+export function pinTelematicsPage(material: THREE.MeshBasicMaterial, pageId: string | null): void {
+  const renderer = getTelematicsRenderer(material);
+  if (pageId) {
+    renderer.pinPage(pageId);
+  } else {
+    renderer.unpinPage();
+  }
+}
+
+/**
+ * Switch the display's theme at runtime
+ * Redraws into the same canvas and texture.
+ * 
+ * @param material - The display material to update
+ * @param theme - Theme or built-in theme id: 'dark', 'light' or 'highContrast'
+ * 
+ * @example
+ * ```typescript
+ * setTelematicsTheme(telematicsMatRef.current, 'highContrast');
+ * ```
+ */
+export function setTelematicsTheme(material: THREE.MeshBasicMaterial, theme: DashboardTheme | string): void {
+  getTelematicsRenderer(material).setTheme(theme);
+}
+
+/**
+ * Forward pointer events on the canvas to the display renderer as texture UVs
+ * Mouse hovers outline widgets; touch outlines while pressed. A press that
+ * barely moves is a tap (so scrolling over the display doesn't tap it).
+ * @returns Function removing the listeners
+ * @private
+ */
+function attachPointerInteraction(
+  mesh: THREE.Mesh,
+  renderer: TelematicsRenderer,
+  camera: THREE.Camera,
+  domElement: HTMLElement
+): () => void {
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  let press: { id: number; x: number; y: number; time: number } | null = null;
+
+  const getUV = (event: PointerEvent): THREE.Vector2 | null => {
+    const bounds = domElement.getBoundingClientRect();
+    pointer.set(
+      ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+      -((event.clientY - bounds.top) / bounds.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+    return raycaster.intersectObject(mesh, false)[0]?.uv ?? null;
+  };
+
+  const hover = (uv: THREE.Vector2 | null) => {
+    const widget = uv ? renderer.hover(uv.x, uv.y) : null;
+    if (!uv) renderer.clearHover();
+    domElement.style.cursor = widget ? 'pointer' : '';
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (event.pointerType === 'touch') return;
+    hover(getUV(event));
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    if (event.button !== 0) return;
+    const uv = getUV(event);
+    if (!uv) return;
+    press = { id: event.pointerId, x: event.clientX, y: event.clientY, time: event.timeStamp };
+    if (event.pointerType === 'touch') hover(uv);
+  };
+
+  const onPointerUp = (event: PointerEvent) => {
+    const start = press;
+    press = null;
+    if (event.pointerType === 'touch') hover(null);
+    if (!start || start.id !== event.pointerId) return;
+
+    const moved = Math.hypot(event.clientX - start.x, event.clientY - start.y);
+    if (moved > TAP_DISTANCE || event.timeStamp - start.time > TAP_DURATION) return;
+    const uv = getUV(event);
+    if (uv) renderer.tap(uv.x, uv.y);
+  };
+
+  const onPointerCancel = () => {
+    press = null;
+    hover(null);
+  };
+
+  domElement.addEventListener('pointermove', onPointerMove);
+  domElement.addEventListener('pointerdown', onPointerDown);
+  domElement.addEventListener('pointerup', onPointerUp);
+  domElement.addEventListener('pointercancel', onPointerCancel);
+  domElement.addEventListener('pointerleave', onPointerCancel);
+
+  return () => {
+    domElement.removeEventListener('pointermove', onPointerMove);
+    domElement.removeEventListener('pointerdown', onPointerDown);
+    domElement.removeEventListener('pointerup', onPointerUp);
+    domElement.removeEventListener('pointercancel', onPointerCancel);
+    domElement.removeEventListener('pointerleave', onPointerCancel);
+    domElement.style.cursor = '';
+  };
+}
+
+/**
+ * Resolve a layout prop (spec, id or nothing) for a display size
+ * @private
+ */
+function resolveLayoutProp(layout: DashboardLayout | string | undefined, size: [number, number]): DashboardLayout {
+  if (typeof layout === 'object') return layout;
+  if (layout) {
+    const named = getLayout(layout);
+    if (named) return named;
+    console.warn(`⚠️ Unknown telematics layout "${layout}", picking one for the display size`);
+  }
+  return pickLayout(size);
+}
+
+/**
+ * Get the renderer attached to a display material, attaching one if the
+ * material was created elsewhere
+ * @private
+ */
+function getTelematicsRenderer(material: THREE.MeshBasicMaterial): TelematicsRenderer {
+  const existing = material.userData.telematicsRenderer as TelematicsRenderer | undefined;
+  if (existing) return existing;
   
-  // Apply new texture
-  material.map = newTexture;
+  const renderer = new TelematicsRenderer();
+  material.map?.dispose();
+  material.map = renderer.texture;
+  material.userData.telematicsRenderer = renderer;
   material.needsUpdate = true;
+  return renderer;
 }
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TelematicsFeed } from '../textures/TelematicsFeed';
+import { resolveTelematicsData } from '../textures/TelematicsTexture';
+import type { TelematicsData, DiagnosticStatus } from '../textures/types';
+import type { AlertManager } from '../alerts/AlertManager';
+import type { Alert, AlertSeverity } from '../alerts/types';
+
+/**
+ * How the dashboard is shown
+ * - hidden: visually hidden, still read by screen readers and crawlers
+ *   (shown while it has keyboard focus)
+ * - overlay: panel over the 3D scene, with a close button
+ * - standalone: panel replacing the 3D scene (no WebGL)
+ */
+export type TelematicsMirrorPresentation = 'hidden' | 'overlay' | 'standalone';
+
+interface TelematicsMirrorProps {
+  feed: TelematicsFeed;
+  alerts?: AlertManager | null;
+  presentation?: TelematicsMirrorPresentation;
+  /** Shortest time between speed / fuel announcements in ms */
+  announceInterval?: number;
+  onClose?: () => void;
+}
+
+const STATUS_LABELS: Record<DiagnosticStatus, string> = {
+  ok: 'OK',
+  warn: 'Warning',
+  fault: 'Fault'
+};
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical'
+};
+
+const SPEED_STEP = 5; // km/h change worth announcing
+const RESET_DELAY = 100; // ms a live region stays empty so repeated messages are read again
+
+/**
+ * TelematicsMirror Component
+ *
+ * DOM version of the 3D telematics display for screen readers, search
+ * engines and browsers without WebGL:
+ * - Speed, fuel, battery, range, temperature and diagnostics from the same
+ *   TelematicsData as the display (with the display's defaults)
+ * - Active alerts with acknowledge buttons
+ * - Live regions: alerts are announced when raised (critical assertively),
+ *   speed / fuel at most every announceInterval and only when they changed
+ *   noticeably
+ *
+ * @example
+ * ```typescript
+ * <TelematicsMirror
+ *   feed={telematicsFeed}
+ *   alerts={alertManager}
+ *   presentation={mirrorOpen ? 'overlay' : 'hidden'}
+ *   onClose={() => setMirrorOpen(false)}
+ * />
+ * ```
+ */
+export const TelematicsMirror: React.FC<TelematicsMirrorProps> = ({
+  feed,
+  alerts = null,
+  presentation = 'hidden',
+  announceInterval = 15000,
+  onClose
+}) => {
+  const [data, setData] = useState<TelematicsData | null>(feed.latest);
+  const [activeAlerts, setActiveAlerts] = useState<Alert[]>(() => alerts?.getActive() ?? []);
+  const [politeMessage, announcePolite] = useAnnouncer();
+  const [assertiveMessage, announceAssertive] = useAnnouncer();
+  const lastAnnounced = useRef<{ time: number; summary: string }>({ time: performance.now(), summary: '' });
+
+  useEffect(() => feed.subscribe(setData), [feed]);
+
+  useEffect(() => {
+    if (!alerts) return;
+    setActiveAlerts(alerts.getActive());
+    const offChange = alerts.on('change', ({ alerts: active }) => setActiveAlerts(active));
+    const offRaise = alerts.on('raise', ({ alert }) => {
+      const message = `${SEVERITY_LABELS[alert.severity]} alert: ${alert.message}`;
+      if (alert.severity === 'critical') {
+        announceAssertive(message);
+      } else {
+        announcePolite(message);
+        lastAnnounced.current.time = performance.now();
+      }
+    });
+    return () => {
+      offChange();
+      offRaise();
+    };
+  }, [alerts, announcePolite, announceAssertive]);
+
+  // Throttled speed / fuel announcements
+  useEffect(() => {
+    if (!data) return;
+    const now = performance.now();
+    const summary = describeTelemetry(data);
+    if (summary === lastAnnounced.current.summary || now - lastAnnounced.current.time < announceInterval) return;
+    lastAnnounced.current = { time: now, summary };
+    announcePolite(summary);
+  }, [data, announceInterval, announcePolite]);
+
+  const state = resolveTelematicsData(data ?? { speed: 0, fuelLevel: 0 });
+  const liters = Math.round(state.fuelLevel * state.tankCapacity);
+
+  return (
+    <section
+      id="telematics-mirror"
+      className={`telematics-mirror telematics-mirror-${presentation}`}
+      aria-labelledby="telematics-mirror-title"
+    >
+      <header className="telematics-mirror-header">
+        <h2 id="telematics-mirror-title">Vehicle Telematics</h2>
+        {presentation === 'overlay' && onClose && (
+          <button type="button" className="telematics-mirror-close" onClick={onClose}>
+            Close
+          </button>
+        )}
+      </header>
+
+      {!data ? (
+        <p className="telematics-mirror-empty">Waiting for vehicle data…</p>
+      ) : (
+        <dl className="telematics-mirror-readings">
+          <div>
+            <dt>Speed</dt>
+            <dd>{Math.round(state.speed)} km/h{state.ecoMode ? ' (eco mode)' : ''}</dd>
+          </div>
+          <div>
+            <dt>Fuel</dt>
+            <dd>
+              {Math.round(state.fuelLevel * 100)}% ({liters} of {state.tankCapacity} L)
+              <meter min={0} max={1} low={0.2} optimum={1} value={state.fuelLevel} aria-hidden="true" />
+            </dd>
+          </div>
+          <div>
+            <dt>Battery</dt>
+            <dd>{Math.round(state.batteryLevel * 100)}%</dd>
+          </div>
+          <div>
+            <dt>Range</dt>
+            <dd>{state.range} km</dd>
+          </div>
+          <div>
+            <dt>Temperature</dt>
+            <dd>{state.temperature}°C</dd>
+          </div>
+          <div>
+            <dt>Time</dt>
+            <dd>{state.time}</dd>
+          </div>
+        </dl>
+      )}
+
+      <h3>Diagnostics</h3>
+      <ul className="telematics-mirror-diagnostics">
+        {state.diagnostics.map(item => (
+          <li key={item.label} className={`telematics-mirror-status-${item.status}`}>
+            {item.label}: {item.value}{item.unit ? ` ${item.unit}` : ''}, {STATUS_LABELS[item.status]}
+          </li>
+        ))}
+      </ul>
+
+      <h3>Alerts</h3>
+      {activeAlerts.length === 0 ? (
+        <p>No active alerts</p>
+      ) : (
+        <ul className="telematics-mirror-alerts">
+          {activeAlerts.map(alert => (
+            <li key={alert.id} className={`telematics-mirror-alert-${alert.severity}`}>
+              <span>
+                {SEVERITY_LABELS[alert.severity]}: {alert.message}
+                {alert.acknowledged ? ' (acknowledged)' : ''}
+              </span>
+              {!alert.acknowledged && (
+                <button type="button" onClick={() => alerts?.acknowledge(alert.id)}>
+                  Acknowledge
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="telematics-mirror-live" aria-live="polite" aria-atomic="true">
+        {politeMessage}
+      </div>
+      <div className="telematics-mirror-live" role="alert" aria-atomic="true">
+        {assertiveMessage}
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Live region text plus a function that (re)announces a message
+ * The region is emptied briefly first so the same message is read again.
+ * @private
+ */
+function useAnnouncer(): [string, (message: string) => void] {
+  const [message, setMessage] = useState('');
+  const timer = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (timer.current !== null) window.clearTimeout(timer.current);
+  }, []);
+
+  const announce = useRef((next: string) => {
+    if (timer.current !== null) window.clearTimeout(timer.current);
+    setMessage('');
+    timer.current = window.setTimeout(() => setMessage(next), RESET_DELAY);
+  }).current;
+
+  return [message, announce];
+}
+
+/**
+ * Spoken speed / fuel summary, rounded so small changes don't count as new
+ * @private
+ */
+function describeTelemetry(data: TelematicsData): string {
+  const speed = Math.round(data.speed / SPEED_STEP) * SPEED_STEP;
+  return `Speed ${speed} kilometres per hour. Fuel ${Math.round(data.fuelLevel * 100)} percent.`;
+}
@@ -0,0 +1,173 @@
+import type {
+  DashboardLayout,
+  DashboardPage,
+  PageTransition,
+  WidgetType,
+  WidgetRect,
+  WidgetOptions,
+  WidgetAction
+} from './types';
+import { WIDGETS } from './widgets';
+import dashboardLayouts from '../config/dashboardLayouts.json';
+import dashboardPages from '../config/dashboardPages.json';
+
+/**
+ * Built-in layouts (see src/config/dashboardLayouts.json)
+ */
+export const DASHBOARD_LAYOUTS = dashboardLayouts.layouts as DashboardLayout[];
+
+/**
+ * Layout used when none is given (the original 2:1 dashboard)
+ */
+export const DEFAULT_LAYOUT = DASHBOARD_LAYOUTS[0];
+
+/**
+ * Built-in carousel pages (see src/config/dashboardPages.json)
+ */
+export const DASHBOARD_PAGES = dashboardPages.pages as DashboardPage[];
+
+/**
+ * Built-in page transition
+ */
+export const DEFAULT_TRANSITION = dashboardPages.transition as PageTransition;
+
+/**
+ * Longest canvas edge in pixels
+ */
+const MAX_CANVAS_SIZE = 2048;
+
+/**
+ * Widget placed on the canvas
+ */
+export interface ResolvedWidget {
+  id: string;
+  type: WidgetType;
+  rect: WidgetRect;
+  options: WidgetOptions;
+  /** Tap action, or null if the widget isn't tappable */
+  action: WidgetAction | null;
+}
+
+/**
+ * Dashboard Layout Engine
+ *
+ * Places a layout's widgets on a canvas:
+ * - Columns and rows are relative weights (or a count of equal tracks),
+ *   so the same layout adapts to any canvas size
+ * - Spans cover several tracks plus the gaps between them
+ * - Unknown widget types and placements outside the grid are skipped with a warning
+ * - Tap actions default to the widget type's action
+ *
+ * @param layout - Layout spec
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @returns Widgets with pixel rects, in draw order
+ *
+ * @example
+ * ```typescript
+ * const widgets = resolveLayout(DEFAULT_LAYOUT, 2048, 1024);
+ * // [{ id: 'header', type: 'infoBar', rect: { x: 0, y: 0, w: 2048, h: 200 }, options: {...}, action: {...} }, ...]
+ * ```
+ */
+export function resolveLayout(layout: DashboardLayout, width: number, height: number): ResolvedWidget[] {
+  const gap = layout.gap ?? 0;
+  const padding = layout.padding ?? 0;
+  const columns = getTracks(layout.columns, width - padding * 2, gap);
+  const rows = getTracks(layout.rows, height - padding * 2, gap);
+  const resolved: ResolvedWidget[] = [];
+
+  layout.widgets.forEach((placement, index) => {
+    const id = placement.id ?? `${placement.type}${index}`;
+    if (!WIDGETS[placement.type]) {
+      console.warn(`⚠️ Unknown dashboard widget type "${placement.type}" (${id})`);
+      return;
+    }
+
+    const lastColumn = Math.min(placement.column + (placement.columnSpan ?? 1), columns.length) - 1;
+    const lastRow = Math.min(placement.row + (placement.rowSpan ?? 1), rows.length) - 1;
+    if (placement.column < 0 || placement.row < 0 || lastColumn < placement.column || lastRow < placement.row) {
+      console.warn(`⚠️ Dashboard widget "${id}" is outside the ${columns.length}×${rows.length} grid`);
+      return;
+    }
+
+    const x = padding + columns[placement.column].start;
+    const y = padding + rows[placement.row].start;
+    resolved.push({
+      id,
+      type: placement.type,
+      rect: {
+        x: Math.round(x),
+        y: Math.round(y),
+        w: Math.round(padding + columns[lastColumn].end - x),
+        h: Math.round(padding + rows[lastRow].end - y)
+      },
+      options: placement.options ?? {},
+      action: placement.action === undefined ? WIDGETS[placement.type].action ?? null : placement.action
+    });
+  });
+
+  return resolved;
+}
+
+/**
+ * Pick the built-in layout whose aspect ratio is closest to a display's
+ * @param size - Display size [width, height] in world units
+ * @param layouts - Candidate layouts (default: built-in layouts)
+ */
+export function pickLayout(size: [number, number], layouts: DashboardLayout[] = DASHBOARD_LAYOUTS): DashboardLayout {
+  const aspect = size[0] / size[1];
+  let best = layouts[0] ?? DEFAULT_LAYOUT;
+  let bestDistance = Infinity;
+
+  layouts.forEach(layout => {
+    if (!layout.aspect) return;
+    // Compare ratios on a log scale so 1:2 and 2:1 are equally far from 1:1
+    const distance = Math.abs(Math.log(layout.aspect / aspect));
+    if (distance < bestDistance) {
+      best = layout;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Find a built-in layout by id
+ * @returns The layout, or undefined if no layout has that id
+ */
+export function getLayout(id: string): DashboardLayout | undefined {
+  return DASHBOARD_LAYOUTS.find(layout => layout.id === id);
+}
+
+/**
+ * Canvas size matching a display's aspect ratio (longest edge 2048px)
+ * @param size - Display size [width, height] in world units
+ * @returns [width, height] in pixels
+ */
+export function getCanvasSize(size: [number, number]): [number, number] {
+  const [w, h] = size;
+  if (!(w > 0 && h > 0)) return [MAX_CANVAS_SIZE, MAX_CANVAS_SIZE / 2];
+  return w >= h
+    ? [MAX_CANVAS_SIZE, Math.max(1, Math.round((MAX_CANVAS_SIZE * h) / w))]
+    : [Math.max(1, Math.round((MAX_CANVAS_SIZE * w) / h)), MAX_CANVAS_SIZE];
+}
+
+/**
+ * Split a length into tracks by weight, leaving gaps between them
+ * @private
+ */
+function getTracks(spec: number | number[], length: number, gap: number): { start: number; end: number }[] {
+  const weights = Array.isArray(spec)
+    ? spec
+    : Array.from({ length: Math.max(1, Math.floor(spec)) }, () => 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const available = Math.max(0, length - gap * (weights.length - 1));
+
+  let cursor = 0;
+  return weights.map(weight => {
+    const start = cursor;
+    const end = start + (available * weight) / total;
+    cursor = end + gap;
+    return { start, end };
+  });
+}
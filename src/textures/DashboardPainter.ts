@@ -0,0 +1,383 @@
+import type { PageTransition, WidgetRect, DashboardTheme } from './types';
+import { WIDGETS, type WidgetState } from './widgets';
+import type { ResolvedWidget } from './DashboardLayout';
+import { DEFAULT_THEME, withAlpha } from './DashboardTheme';
+
+const HIGHLIGHT_INSET = 4; // px between a widget's cell edge and its hover outline
+
+/**
+ * Canvas a painter draws into: a DOM canvas on the main thread, an
+ * OffscreenCanvas in a worker
+ */
+export type DashboardCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * One of the painter's two page surfaces (current page and incoming page)
+ */
+export type SurfaceSlot = 0 | 1;
+
+/**
+ * Page indicator drawn into a page's static layer
+ */
+export interface PageIndicator {
+  titles: string[];
+  active: number;
+}
+
+/**
+ * Drawing step for a DashboardPainter (plain data, so it can be posted to a worker)
+ * - resize: resize the display canvas
+ * - theme: draw later commands with another theme (surfaces need rebuilding to pick it up)
+ * - build: draw a page's static layer (background, grid, widget frames, page dots) into a surface
+ * - draw: redraw widgets of a surface with new data
+ * - show: copy a surface, or some of its cells, to the display canvas
+ * - highlight: outline a cell on the display canvas
+ * - composite: draw a page transition between two surfaces on the display canvas
+ */
+export type PaintCommand =
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'theme'; theme: DashboardTheme }
+  | { type: 'build'; surface: SurfaceSlot; widgets: ResolvedWidget[]; indicator: PageIndicator | null }
+  | { type: 'draw'; surface: SurfaceSlot; widgets: ResolvedWidget[]; state: WidgetState }
+  | { type: 'show'; surface: SurfaceSlot; rects?: WidgetRect[] }
+  | { type: 'highlight'; rect: WidgetRect }
+  | { type: 'composite'; from: SurfaceSlot; to: SurfaceSlot; transition: PageTransition['type']; progress: number };
+
+/**
+ * Message from TelematicsRenderer to the dashboard worker
+ */
+export interface DashboardWorkerRequest {
+  type: 'paint';
+  commands: PaintCommand[];
+}
+
+/**
+ * Message from the dashboard worker to TelematicsRenderer
+ * - frame: the display canvas after a batch that changed it
+ * - unsupported: no 2D context for OffscreenCanvas in this browser
+ */
+export type DashboardWorkerReply =
+  | { type: 'frame'; bitmap: ImageBitmap }
+  | { type: 'unsupported' };
+
+/**
+ * Static layer and drawn widgets of one page
+ * @private
+ */
+class PaintSurface {
+  canvas: DashboardCanvas;
+
+  private ctx: CanvasRenderingContext2D | null;
+  private staticLayer: DashboardCanvas;
+  private staticCtx: CanvasRenderingContext2D | null;
+
+  constructor() {
+    this.canvas = createCanvas();
+    this.ctx = getContext(this.canvas);
+    this.staticLayer = createCanvas();
+    this.staticCtx = getContext(this.staticLayer);
+  }
+
+  get ready(): boolean {
+    return this.ctx !== null && this.staticCtx !== null;
+  }
+
+  /**
+   * Draw the static layer and copy it to the page
+   */
+  build(
+    widgets: ResolvedWidget[],
+    width: number,
+    height: number,
+    indicator: PageIndicator | null,
+    theme: DashboardTheme
+  ): void {
+    if (!this.ctx || !this.staticCtx) return;
+    this.canvas.width = this.staticLayer.width = width;
+    this.canvas.height = this.staticLayer.height = height;
+
+    drawStaticLayer(this.staticCtx, width, height, widgets, theme);
+    if (indicator) drawPageIndicator(this.staticCtx, width, height, indicator, theme);
+    this.ctx.drawImage(this.staticLayer, 0, 0);
+  }
+
+  /**
+   * Restore widgets' cells from the static layer and redraw them
+   */
+  draw(widgets: ResolvedWidget[], state: WidgetState, theme: DashboardTheme): void {
+    const ctx = this.ctx;
+    if (!ctx) return;
+
+    widgets.forEach(({ type, rect, options }) => {
+      const { x, y, w, h } = rect;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+      ctx.drawImage(this.staticLayer, x, y, w, h, x, y, w, h);
+      WIDGETS[type].draw?.(ctx, rect, state, options, theme);
+      ctx.restore();
+    });
+  }
+}
+
+/**
+ * DashboardPainter - Executes dashboard paint commands on a canvas
+ *
+ * The drawing half of TelematicsRenderer, kept free of DOM and Three.js so it
+ * runs the same on the main thread and in a worker:
+ * - Two page surfaces, each a cached static layer plus its drawn widgets
+ * - A display canvas that surfaces are copied or composited onto
+ * - Commands are plain data (see PaintCommand)
+ * - Everything is drawn with the current theme, which a 'theme' command switches
+ *
+ * @example
+ * ```typescript
+ * const painter = new DashboardPainter(new OffscreenCanvas(2048, 1024));
+ * painter.run([
+ *   { type: 'theme', theme: getTheme('highContrast')! },
+ *   { type: 'build', surface: 0, widgets, indicator: null },
+ *   { type: 'draw', surface: 0, widgets, state },
+ *   { type: 'show', surface: 0 }
+ * ]); // true: the display canvas changed
+ * ```
+ */
+export class DashboardPainter {
+  canvas: DashboardCanvas;
+  theme: DashboardTheme;
+
+  private ctx: CanvasRenderingContext2D | null;
+  private surfaces: [PaintSurface, PaintSurface];
+
+  constructor(canvas: DashboardCanvas, theme: DashboardTheme = DEFAULT_THEME) {
+    this.canvas = canvas;
+    this.theme = theme;
+    this.ctx = getContext(canvas);
+    this.surfaces = [new PaintSurface(), new PaintSurface()];
+  }
+
+  /**
+   * Whether every canvas got a 2D context
+   */
+  get ready(): boolean {
+    return this.ctx !== null && this.surfaces.every(surface => surface.ready);
+  }
+
+  /**
+   * Run a batch of commands in order
+   * @returns True if the display canvas changed
+   */
+  run(commands: PaintCommand[]): boolean {
+    if (!this.ready) return false;
+    commands.forEach(command => this.runCommand(command));
+    return changesDisplay(commands);
+  }
+
+  /**
+   * Run one command
+   * @private
+   */
+  private runCommand(command: PaintCommand): void {
+    const ctx = this.ctx!;
+    const { width, height } = this.canvas;
+
+    switch (command.type) {
+      case 'resize':
+        this.canvas.width = command.width;
+        this.canvas.height = command.height;
+        break;
+      case 'theme':
+        this.theme = command.theme;
+        break;
+      case 'build':
+        this.surfaces[command.surface].build(command.widgets, width, height, command.indicator, this.theme);
+        break;
+      case 'draw':
+        this.surfaces[command.surface].draw(command.widgets, command.state, this.theme);
+        break;
+      case 'show': {
+        const source = this.surfaces[command.surface].canvas;
+        (command.rects ?? [{ x: 0, y: 0, w: width, h: height }]).forEach(({ x, y, w, h }) => {
+          ctx.clearRect(x, y, w, h);
+          ctx.drawImage(source, x, y, w, h, x, y, w, h);
+        });
+        break;
+      }
+      case 'highlight':
+        drawHighlight(ctx, command.rect, this.theme);
+        break;
+      case 'composite':
+        composite(
+          ctx,
+          this.surfaces[command.from].canvas,
+          this.surfaces[command.to].canvas,
+          command.transition,
+          command.progress
+        );
+        break;
+    }
+  }
+}
+
+/**
+ * Whether a batch of commands changes the display canvas (rather than only
+ * drawing into page surfaces)
+ */
+export function changesDisplay(commands: PaintCommand[]): boolean {
+  return commands.some(command => !['theme', 'build', 'draw'].includes(command.type));
+}
+
+/**
+ * Create a canvas for the current thread (DOM canvas when there is a
+ * document, OffscreenCanvas in a worker)
+ * @private
+ */
+function createCanvas(): DashboardCanvas {
+  return typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(1, 1);
+}
+
+/**
+ * 2D context of either canvas kind
+ * OffscreenCanvasRenderingContext2D has all the drawing API the widgets use,
+ * so both are handled as CanvasRenderingContext2D.
+ * @private
+ */
+function getContext(canvas: DashboardCanvas): CanvasRenderingContext2D | null {
+  return (canvas as HTMLCanvasElement).getContext('2d');
+}
+
+/**
+ * Draw everything that never changes: background, grid and each
+ * widget's static frame
+ * @private
+ */
+function drawStaticLayer(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  widgets: ResolvedWidget[],
+  theme: DashboardTheme
+): void {
+  // Background with subtle radial gradient (navy in the dark theme)
+  const [center, edge] = theme.palette.background;
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.max(width, height) * 0.6);
+  gradient.addColorStop(0, center);
+  gradient.addColorStop(1, edge);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // === HOLOGRAPHIC GRID LINES ===
+  ctx.strokeStyle = withAlpha(theme.palette.accent, theme.gridOpacity);
+  ctx.lineWidth = 1;
+
+  // Horizontal lines
+  for (let y = 100; y < height; y += 80) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+
+  // Vertical lines
+  for (let x = 100; x < width; x += 80) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+
+  // === WIDGET FRAMES ===
+  widgets.forEach(({ type, rect, options }) => {
+    const drawStatic = WIDGETS[type].drawStatic;
+    if (!drawStatic) return;
+    ctx.save();
+    drawStatic(ctx, rect, options, theme);
+    ctx.restore();
+  });
+}
+
+/**
+ * Draw both pages of a running transition
+ * @private
+ */
+function composite(
+  ctx: CanvasRenderingContext2D,
+  from: DashboardCanvas,
+  to: DashboardCanvas,
+  type: PageTransition['type'],
+  progress: number
+): void {
+  const { width, height } = ctx.canvas;
+  // Ease in-out so the move starts and lands softly
+  const eased = progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2;
+
+  ctx.clearRect(0, 0, width, height);
+  if (type === 'fade') {
+    ctx.drawImage(from, 0, 0);
+    ctx.globalAlpha = eased;
+    ctx.drawImage(to, 0, 0);
+    ctx.globalAlpha = 1;
+  } else {
+    const offset = Math.round(eased * width);
+    ctx.drawImage(from, -offset, 0);
+    ctx.drawImage(to, width - offset, 0);
+  }
+}
+
+/**
+ * Outline a tappable widget under the pointer (kept inside its cell so
+ * restoring the cell removes it)
+ * @private
+ */
+function drawHighlight(ctx: CanvasRenderingContext2D, rect: WidgetRect, theme: DashboardTheme): void {
+  const { palette } = theme;
+  const { x, y, w, h } = rect;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+
+  ctx.fillStyle = withAlpha(palette.text, 0.04);
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = withAlpha(palette.accent, 0.9);
+  ctx.lineWidth = 4;
+  ctx.shadowColor = palette.accent;
+  ctx.shadowBlur = 12 * theme.glow;
+  ctx.strokeRect(x + HIGHLIGHT_INSET, y + HIGHLIGHT_INSET, w - HIGHLIGHT_INSET * 2, h - HIGHLIGHT_INSET * 2);
+  ctx.restore();
+}
+
+/**
+ * Draw page dots along the bottom edge, with the active page's title
+ * @private
+ */
+function drawPageIndicator(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  indicator: PageIndicator,
+  theme: DashboardTheme
+): void {
+  const { palette } = theme;
+  const spacing = 28;
+  const y = height - 24;
+  const startX = width / 2 - ((indicator.titles.length - 1) * spacing) / 2;
+
+  indicator.titles.forEach((_, i) => {
+    const active = i === indicator.active;
+    ctx.fillStyle = active ? palette.accent : withAlpha(palette.muted, 0.6);
+    if (active) {
+      ctx.shadowColor = palette.accent;
+      ctx.shadowBlur = 10 * theme.glow;
+    }
+    ctx.beginPath();
+    ctx.arc(startX + i * spacing, y, active ? 8 : 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  });
+
+  ctx.font = `bold 20px ${theme.fonts.mono}`;
+  ctx.fillStyle = palette.label;
+  ctx.textAlign = 'center';
+  ctx.fillText(indicator.titles[indicator.active], width / 2, y - 22);
+}
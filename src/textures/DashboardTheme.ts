@@ -0,0 +1,64 @@
+import type { DashboardTheme } from './types';
+import dashboardThemes from '../config/dashboardThemes.json';
+
+/**
+ * Built-in themes (see src/config/dashboardThemes.json)
+ * - dark: the original navy / crimson look
+ * - light: for bright cabins and printed screenshots
+ * - highContrast: black background, light labels, no glow or grid
+ */
+export const DASHBOARD_THEMES = dashboardThemes.themes as DashboardTheme[];
+
+/**
+ * Theme used when none is given (dark)
+ */
+export const DEFAULT_THEME = DASHBOARD_THEMES[0];
+
+/**
+ * Find a built-in theme by id
+ * @returns The theme, or undefined if no theme has that id
+ */
+export function getTheme(id: string): DashboardTheme | undefined {
+  return DASHBOARD_THEMES.find(theme => theme.id === id);
+}
+
+/**
+ * Resolve a theme option (spec, id or nothing)
+ * Unknown ids fall back to the default theme with a warning.
+ * @param theme - Theme or built-in theme id
+ *
+ * @example
+ * ```typescript
+ * resolveTheme('light').palette.text; // '#0f1419'
+ * resolveTheme(undefined).id;         // 'dark'
+ * ```
+ */
+export function resolveTheme(theme: DashboardTheme | string | undefined): DashboardTheme {
+  if (typeof theme === 'object') return theme;
+  if (theme) {
+    const named = getTheme(theme);
+    if (named) return named;
+    console.warn(`⚠️ Unknown telematics theme "${theme}", using "${DEFAULT_THEME.id}"`);
+  }
+  return DEFAULT_THEME;
+}
+
+/**
+ * Translucent version of a palette color
+ * @param color - Hex color, '#rgb' or '#rrggbb'
+ * @param alpha - Opacity (0.0-1.0)
+ * @returns CSS rgba() color
+ *
+ * @example
+ * ```typescript
+ * withAlpha('#be202e', 0.3); // 'rgba(190, 32, 46, 0.3)'
+ * ```
+ */
+export function withAlpha(color: string, alpha: number): string {
+  let hex = color.replace('#', '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  const value = parseInt(hex, 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
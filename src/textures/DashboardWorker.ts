@@ -0,0 +1,47 @@
+import { DashboardPainter, type DashboardWorkerRequest, type DashboardWorkerReply } from './DashboardPainter';
+
+/**
+ * Dashboard Render Worker
+ *
+ * Runs a DashboardPainter against an OffscreenCanvas for TelematicsRenderer:
+ * - Receives batches of paint commands
+ * - Posts the display canvas back as an ImageBitmap after each batch that changed it
+ * - Replies 'unsupported' when OffscreenCanvas has no 2D context here, so the
+ *   renderer falls back to drawing on the main thread
+ *
+ * The display canvas is drawn incrementally, and transferToImageBitmap()
+ * leaves a canvas blank, so frames are copied to a separate output canvas
+ * and transferred from there.
+ */
+
+// Typed as a Worker: the project only includes the DOM lib, and a dedicated
+// worker's global scope has the same messaging API
+const scope = self as unknown as Worker;
+const display = new OffscreenCanvas(1, 1);
+const output = new OffscreenCanvas(1, 1);
+const outputCtx = output.getContext('2d');
+const painter = new DashboardPainter(display);
+
+scope.onmessage = (event: MessageEvent<DashboardWorkerRequest>) => {
+  if (!painter.ready || !outputCtx) {
+    post({ type: 'unsupported' });
+    return;
+  }
+  if (!painter.run(event.data.commands)) return;
+
+  if (output.width !== display.width || output.height !== display.height) {
+    output.width = display.width;
+    output.height = display.height;
+  }
+  outputCtx.drawImage(display, 0, 0);
+  const bitmap = output.transferToImageBitmap();
+  post({ type: 'frame', bitmap }, [bitmap]);
+};
+
+/**
+ * Send a reply to the renderer
+ * @private
+ */
+function post(reply: DashboardWorkerReply, transfer: Transferable[] = []): void {
+  scope.postMessage(reply, transfer);
+}
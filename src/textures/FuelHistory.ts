@@ -0,0 +1,147 @@
+import type { FuelSample, FuelEvent, FuelEventType, FuelHistoryOptions } from './types';
+
+/**
+ * FuelHistory - Rolling fuel level history with event detection
+ *
+ * Provides:
+ * - Fixed-size ring buffer of fuel samples (no allocation once full)
+ * - Samples thinned to one per sampleInterval, so it can be fed every frame
+ * - Refuel and sudden-drop (theft) events: level changes larger than a
+ *   threshold within the detection window. Consecutive detections of the
+ *   same kind merge into one event, so a slow refuel is marked once.
+ *
+ * @example
+ * ```typescript
+ * const history = new FuelHistory({ window: 300000 });
+ * history.push(0.62, performance.now());
+ * history.getSamples();  // [{ time, level }, ...] oldest first
+ * history.getEvents();   // [{ type: 'theft', time, from: 0.62, to: 0.48 }]
+ * ```
+ */
+export class FuelHistory {
+  options: Required<FuelHistoryOptions>;
+
+  private buffer: FuelSample[];
+  // Index of the oldest sample and number of samples stored
+  private head = 0;
+  private count = 0;
+  private events: FuelEvent[] = [];
+
+  constructor(options: FuelHistoryOptions = {}) {
+    this.options = {
+      window: 300000,
+      sampleInterval: 1000,
+      detectionWindow: 20000,
+      refuelThreshold: 0.04,
+      theftThreshold: 0.06,
+      ...options
+    };
+    const capacity = Math.ceil(this.options.window / Math.max(this.options.sampleInterval, 1)) + 1;
+    this.buffer = new Array(capacity);
+  }
+
+  /**
+   * Number of samples stored
+   */
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Record a fuel level
+   * @param level - Fuel level (0.0-1.0)
+   * @param time - Timestamp in milliseconds
+   * @returns True if the sample was stored (false when within sampleInterval of the last one)
+   */
+  push(level: number, time: number): boolean {
+    const last = this.at(this.count - 1);
+    if (last && time - last.time < this.options.sampleInterval) return false;
+
+    const capacity = this.buffer.length;
+    if (this.count < capacity) {
+      this.buffer[(this.head + this.count) % capacity] = { time, level };
+      this.count++;
+    } else {
+      // Full: overwrite the oldest sample
+      this.buffer[this.head] = { time, level };
+      this.head = (this.head + 1) % capacity;
+    }
+
+    this.detectEvent(level, time);
+    this.events = this.events.filter(event => event.end >= time - this.options.window);
+    return true;
+  }
+
+  /**
+   * Samples oldest first
+   * @param window - Only samples this many ms before the newest one (default: all)
+   */
+  getSamples(window?: number): FuelSample[] {
+    const samples: FuelSample[] = [];
+    for (let i = 0; i < this.count; i++) samples.push(this.at(i)!);
+    if (window === undefined || samples.length === 0) return samples;
+    const from = samples[samples.length - 1].time - window;
+    return samples.filter(sample => sample.time >= from);
+  }
+
+  /**
+   * Detected refuel and theft events, oldest first
+   */
+  getEvents(): FuelEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Forget all samples and events
+   */
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+    this.events = [];
+  }
+
+  /**
+   * Sample by age order (0 = oldest)
+   * @private
+   */
+  private at(index: number): FuelSample | undefined {
+    if (index < 0 || index >= this.count) return undefined;
+    return this.buffer[(this.head + index) % this.buffer.length];
+  }
+
+  /**
+   * Compare the new level with the oldest sample inside the detection
+   * window and record (or extend) a refuel / theft event
+   * @private
+   */
+  private detectEvent(level: number, time: number): void {
+    const { detectionWindow, refuelThreshold, theftThreshold } = this.options;
+
+    let reference: FuelSample | undefined;
+    for (let i = 0; i < this.count - 1; i++) {
+      const sample = this.at(i)!;
+      if (sample.time >= time - detectionWindow) {
+        reference = sample;
+        break;
+      }
+    }
+    if (!reference) return;
+
+    const change = level - reference.level;
+    let type: FuelEventType | null = null;
+    if (change >= refuelThreshold) type = 'refuel';
+    else if (change <= -theftThreshold) type = 'theft';
+    if (!type) return;
+
+    // Still the same refuel / drop: extend it instead of adding another marker
+    const previous = this.events[this.events.length - 1];
+    if (previous && previous.type === type && time - previous.end <= detectionWindow) {
+      previous.to = level;
+      previous.end = time;
+      return;
+    }
+
+    this.events.push({ type, time: reference.time, end: time, from: reference.level, to: level });
+    console.log(`⛽ Fuel ${type === 'refuel' ? 'refuel' : 'sudden drop'} detected: ${Math.round(change * 100)}%`);
+  }
+}
@@ -0,0 +1,43 @@
+import type { TelematicsData } from './types';
+
+/**
+ * TelematicsFeed - Latest telematics data for views outside the 3D scene
+ *
+ * The 3D display is updated imperatively from the animation loop; DOM views
+ * (the accessible dashboard) subscribe here instead, so an update doesn't
+ * re-render the whole app.
+ *
+ * @example
+ * ```typescript
+ * const feed = new TelematicsFeed();
+ * const unsubscribe = feed.subscribe(data => console.log(data.speed));
+ *
+ * feed.publish({ speed: 96, fuelLevel: 0.62 });
+ * feed.latest; // { speed: 96, fuelLevel: 0.62 }
+ * ```
+ */
+export class TelematicsFeed {
+  /** Last published data, or null before the first update */
+  latest: TelematicsData | null = null;
+
+  private listeners: Set<(data: TelematicsData) => void> = new Set();
+
+  /**
+   * Share new data with every subscriber
+   * @param data - Same data passed to the 3D display
+   */
+  publish(data: TelematicsData): void {
+    this.latest = data;
+    this.listeners.forEach(listener => listener(data));
+  }
+
+  /**
+   * Follow published data
+   * @param listener - Called with each update
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (data: TelematicsData) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
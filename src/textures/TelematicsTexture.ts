@@ -1,21 +1,876 @@
 import * as THREE from 'three';
-import type { TelematicsData } from './types';
+import type {
+  TelematicsData,
+  TelematicsRendererOptions,
+  DashboardLayout,
+  DashboardPage,
+  PageTransition,
+  FuelHistorySnapshot,
+  WidgetAction,
+  DashboardTheme
+} from './types';
+import { WIDGETS, type WidgetState } from './widgets';
+import {
+  resolveLayout,
+  pickLayout,
+  getLayout,
+  DEFAULT_LAYOUT,
+  DEFAULT_TRANSITION,
+  type ResolvedWidget
+} from './DashboardLayout';
+import {
+  DashboardPainter,
+  changesDisplay,
+  type PaintCommand,
+  type PageIndicator,
+  type SurfaceSlot,
+  type DashboardWorkerReply
+} from './DashboardPainter';
+import { resolveTheme } from './DashboardTheme';
+import { FuelHistory } from './FuelHistory';
+import { TripComputer } from './TripComputer';
+import type { AlertManager } from '../alerts/AlertManager';
+
+const DEFAULT_DWELL = 8000; // ms per page when a page doesn't set one
+
+/**
+ * Carousel page with its layouts looked up
+ * @private
+ */
+interface ResolvedPage {
+  id: string;
+  title: string;
+  dwell: number;
+  layouts: DashboardLayout[];
+}
+
+/**
+ * Widget shown full screen in place of its page
+ * @private
+ */
+interface ExpandedWidget {
+  id: string;
+  layout: DashboardLayout;
+}
+
+/**
+ * Widgets placed on one of the painter's page surfaces, with the key each
+ * was last drawn with (a widget only redraws when its key changes)
+ * @private
+ */
+class PageSurface {
+  slot: SurfaceSlot;
+  widgets: ResolvedWidget[] = [];
+
+  // Last drawn key per widget id
+  private keys: Map<string, string> = new Map();
+
+  constructor(slot: SurfaceSlot) {
+    this.slot = slot;
+  }
+
+  /**
+   * Place a layout's widgets (all of them draw on the next update)
+   */
+  build(layout: DashboardLayout, width: number, height: number): void {
+    this.widgets = resolveLayout(layout, width, height);
+    this.keys.clear();
+  }
+
+  /**
+   * Widgets whose data changed since they were last drawn
+   */
+  update(state: WidgetState): ResolvedWidget[] {
+    return this.widgets.filter(({ id, type, options }) => {
+      const key = WIDGETS[type].key(state, options);
+      if (this.keys.get(id) === key) return false;
+      this.keys.set(id, key);
+      return true;
+    });
+  }
+
+  /**
+   * Force every widget to redraw on the next update
+   */
+  invalidate(): void {
+    this.keys.clear();
+  }
+}
+
+/**
+ * TelematicsRenderer - Persistent renderer for the truck dashboard display
+ *
+ * Keeps one canvas and one texture for the lifetime of the display
+ * instead of reallocating them on every update:
+ * - Widgets are placed by a grid layout spec (see DashboardLayout), so
+ *   screens for other customers or aspect ratios need no drawing code
+ * - Static layers (background grid and each widget's frame) are drawn once
+ *   into an offscreen canvas
+ * - Each update restores only the cells of widgets whose data changed
+ *   from that cache and redraws them
+ * - The texture is flagged for upload only when something was redrawn
+ * - Every fuel level passed to update is recorded in a ring buffer that
+ *   feeds the fuel history widget, and speed / fuel are integrated into
+ *   trip totals
+ * - Optional page carousel: each page has a dwell time, pages change with a
+ *   slide or fade drawn on the canvas, and a page can be pinned
+ * - Optional AlertManager: its telemetry rules run on every update and the
+ *   top unacknowledged alert flashes in the header / alert banner widgets
+ * - Pointer input in texture UV coordinates: hovering a tappable widget
+ *   outlines it (and holds the carousel), tapping runs its action - switch
+ *   page, expand a chart to full screen or acknowledge the top alert
+ * - Drawing runs in a Web Worker on an OffscreenCanvas where supported: the
+ *   renderer keeps the page / widget bookkeeping and posts paint commands,
+ *   the worker posts back ImageBitmaps for the texture. Without worker or
+ *   OffscreenCanvas support it draws on the main thread instead.
+ * - Themes (dark, light, high contrast or custom) set the palette, fonts,
+ *   glow and grid; switching redraws into the same canvas and texture
+ *
+ * @example
+ * ```typescript
+ * const renderer = new TelematicsRenderer({ speed: 85, fuelLevel: 0.65 }, {
+ *   pages: DASHBOARD_PAGES,
+ *   width: 2048,
+ *   height: 1024
+ * });
+ * const material = new THREE.MeshBasicMaterial({ map: renderer.texture });
+ *
+ * // Every few frames
+ * renderer.update({ speed: currentSpeed, fuelLevel: currentFuel });
+ * // Every frame (page timing and transitions)
+ * renderer.tick();
+ *
+ * renderer.pinPage('fuelDetail'); // Hold a page until unpinPage()
+ * renderer.setTheme('highContrast');
+ *
+ * // Raycast hit on the display mesh
+ * renderer.hover(hit.uv.x, hit.uv.y);
+ * renderer.tap(hit.uv.x, hit.uv.y);
+ * ```
+ */
+export class TelematicsRenderer {
+  texture: THREE.Texture;
+  transition: PageTransition;
+  /** Fuel levels recorded from update() */
+  fuelHistory: FuelHistory;
+  /** Trip totals integrated from update() */
+  trip: TripComputer;
+  /** Alerts evaluated on update and shown on the display */
+  alerts: AlertManager | null;
+  /** Palette, fonts and effects the display is drawn with (see setTheme) */
+  theme: DashboardTheme;
+
+  private width: number;
+  private height: number;
+  // Exactly one of these draws: a painter on the main thread, or the dashboard worker
+  private painter: DashboardPainter | null = null;
+  private worker: Worker | null = null;
+  // Paint commands queued since the last flush
+  private commands: PaintCommand[] = [];
+  private ready = false;
+  private pages: ResolvedPage[] = [];
+  private pageIndex = 0;
+  // When the current page started showing (performance.now() ms)
+  private pageStart = 0;
+  private pinned: string | null = null;
+  // Surface showing the current page, and the one a transition moves to
+  private front = new PageSurface(0);
+  private back = new PageSurface(1);
+  private changing: { to: number; start: number } | null = null;
+  // Widget outlined under the pointer, and widget shown full screen
+  private hovered: ResolvedWidget | null = null;
+  private expanded: ExpandedWidget | null = null;
+  // Last data passed to update, and its resolved form (redrawn after layout or size changes)
+  private data: TelematicsData;
+  private state: WidgetState;
+  private unsubscribeAlerts: (() => void) | null = null;
+
+  constructor(data: TelematicsData = { speed: 85, fuelLevel: 0.65 }, options: TelematicsRendererOptions = {}) {
+    this.transition = options.transition ?? DEFAULT_TRANSITION;
+    this.fuelHistory = new FuelHistory(options.history);
+    this.trip = new TripComputer();
+    this.alerts = options.alerts ?? null;
+    this.theme = resolveTheme(options.theme);
+    this.data = data;
+    this.state = resolveTelematicsData(data, performance.now());
+
+    this.width = options.width ?? 2048;
+    this.height = options.height ?? 1024;
+    this.texture = (options.worker !== false ? this.startWorker() : null) ?? this.startPainter();
+    if (!this.ready) return;
+
+    this.pages = options.pages?.length
+      ? resolvePages(options.pages)
+      : [singlePage(options.layout ?? DEFAULT_LAYOUT)];
+    this.update(data);
+    this.rebuild();
+
+    // Show alerts raised / acknowledged between updates right away
+    this.unsubscribeAlerts = this.alerts?.on('change', () => {
+      this.state = this.resolve(performance.now());
+      this.present();
+    }) ?? null;
+  }
+
+  /**
+   * Layout of the page showing
+   */
+  get layout(): DashboardLayout {
+    return this.layoutFor(this.pages[this.pageIndex]);
+  }
+
+  /**
+   * Id of the page showing (or being transitioned to)
+   */
+  get currentPage(): string {
+    return this.pages[this.changing?.to ?? this.pageIndex].id;
+  }
+
+  /**
+   * Id of the pinned page, or null while the carousel cycles
+   */
+  get pinnedPage(): string | null {
+    return this.pinned;
+  }
+
+  /**
+   * Id of the widget shown full screen, or null
+   */
+  get expandedWidget(): string | null {
+    return this.expanded?.id ?? null;
+  }
+
+  /**
+   * Redraw widgets whose data changed
+   * @param data - Telematics data to display (omitted optional fields use defaults)
+   * @returns True if the texture was updated
+   */
+  update(data: TelematicsData): boolean {
+    if (!this.ready) return false;
+
+    const now = performance.now();
+    this.data = data;
+    this.fuelHistory.push(data.fuelLevel, now);
+    this.trip.update(data.speed, data.fuelLevel, data.tankCapacity ?? 400, now);
+    this.alerts?.evaluate({ fuelHistory: this.getFuelHistorySnapshot(), ...data });
+    this.state = this.resolve(now);
+    return this.present();
+  }
+
+  /**
+   * Advance the carousel: start a transition when the page's dwell time is
+   * up and animate running transitions, and flash unacknowledged alerts.
+   * Call once per frame.
+   * @param now - Current time in ms (default: performance.now())
+   * @returns True if the texture was updated
+   */
+  tick(now: number = performance.now()): boolean {
+    if (!this.ready) return false;
+
+    if (this.changing) {
+      const duration = Math.max(this.transition.duration, 1);
+      const progress = Math.min((now - this.changing.start) / duration, 1);
+      if (progress >= 1) {
+        this.finishTransition(now);
+      } else {
+        this.paint({
+          type: 'composite',
+          from: this.front.slot,
+          to: this.back.slot,
+          transition: this.transition.type,
+          progress
+        });
+      }
+      return this.flush();
+    }
+
+    // Hold the page while it's pinned, expanded or being pointed at
+    const page = this.pages[this.pageIndex];
+    const held = this.pinned !== null || this.expanded !== null || this.hovered !== null;
+    if (!held && this.pages.length > 1 && now - this.pageStart >= page.dwell) {
+      return this.goTo((this.pageIndex + 1) % this.pages.length, now);
+    }
+
+    // Flashing banners redraw when their phase flips (their widget key changes)
+    if (this.state.banner?.flash) {
+      this.state = { ...this.state, now };
+      return this.present();
+    }
+    return false;
+  }
+
+  /**
+   * Redraw changed widgets of the current page (and the incoming one during
+   * a transition) and copy them to the display canvas
+   * @returns True if the texture was updated
+   * @private
+   */
+  private present(): boolean {
+    if (!this.ready) return false;
+
+    const dirty = this.drawChanged(this.front).map(widget => widget.rect);
+    if (this.changing) {
+      // tick() composites both pages while a transition runs
+      this.drawChanged(this.back);
+      return this.flush();
+    }
+
+    if (dirty.length > 0) {
+      this.paint({ type: 'show', surface: this.front.slot, rects: dirty });
+    }
+    // Redrawn cells lose their outline; put it back if the action still applies
+    if (this.hovered && dirty.includes(this.hovered.rect)) {
+      if (this.canRun(this.hovered.action)) {
+        this.paint({ type: 'highlight', rect: this.hovered.rect });
+      } else {
+        this.hovered = null;
+      }
+    }
+    return this.flush();
+  }
+
+  /**
+   * Move to a page now (the carousel carries on from there)
+   * @param id - Page id
+   * @returns False if there is no page with that id
+   */
+  showPage(id: string): boolean {
+    const index = this.pages.findIndex(page => page.id === id);
+    if (index === -1) {
+      console.warn(`⚠️ Unknown telematics page "${id}"`);
+      return false;
+    }
+    this.goTo(index, performance.now());
+    return true;
+  }
+
+  /**
+   * Show a page and hold it until unpinPage()
+   * @param id - Page id, e.g. 'fuelDetail'
+   */
+  pinPage(id: string): void {
+    if (this.pinned === id) return;
+    if (this.showPage(id)) {
+      this.pinned = id;
+      console.log(`📌 Telematics page pinned: ${id}`);
+    }
+  }
+
+  /**
+   * Let the carousel cycle again (the current page gets a full dwell)
+   */
+  unpinPage(): void {
+    if (this.pinned === null) return;
+    this.pinned = null;
+    this.pageStart = performance.now();
+  }
+
+  /**
+   * Keep a pin on the page a tap navigated to (so pinnedPage stays accurate)
+   * @private
+   */
+  private followPin(): boolean {
+    if (this.pinned !== null && this.pinned !== this.currentPage) {
+      this.pinned = this.currentPage;
+      console.log(`📌 Telematics page pinned: ${this.pinned}`);
+    }
+    return true;
+  }
+
+  /**
+   * Widget at a point on the display
+   * @param u - Texture U (0 = left edge, 1 = right edge)
+   * @param v - Texture V (0 = bottom edge, 1 = top edge)
+   * @returns The topmost widget there, or null (also during page transitions)
+   */
+  hitTest(u: number, v: number): ResolvedWidget | null {
+    if (this.changing) return null;
+    // Canvas rows run top-down; the texture is flipped on upload
+    const x = u * this.width;
+    const y = (1 - v) * this.height;
+    const widgets = this.front.widgets;
+    for (let i = widgets.length - 1; i >= 0; i--) {
+      const { rect } = widgets[i];
+      if (x >= rect.x && x < rect.x + rect.w && y >= rect.y && y < rect.y + rect.h) {
+        return widgets[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Outline the tappable widget under the pointer
+   * @param u - Texture U of the pointer
+   * @param v - Texture V of the pointer
+   * @returns The outlined widget, or null if nothing there can be tapped
+   */
+  hover(u: number, v: number): ResolvedWidget | null {
+    const widget = this.hitTest(u, v);
+    this.setHovered(widget && this.canRun(widget.action) ? widget : null);
+    return this.hovered;
+  }
+
+  /**
+   * Remove the hover outline (pointer left the display)
+   */
+  clearHover(): void {
+    this.setHovered(null);
+  }
+
+  /**
+   * Run the action of the widget at a point
+   * Tapping outside any widget shows the next page (or closes a full screen widget).
+   * While a page is pinned, a tap that changes page moves the pin to the new page.
+   * @param u - Texture U of the tap
+   * @param v - Texture V of the tap
+   * @returns True if the tap did something
+   */
+  tap(u: number, v: number): boolean {
+    if (!this.ready || this.changing) return false;
+
+    const widget = this.hitTest(u, v);
+    const action: WidgetAction | null = widget
+      ? widget.action
+      : { type: this.expanded ? 'collapse' : 'nextPage' };
+    if (!action || !this.canRun(action)) return false;
+
+    console.log(`👆 Telematics tap: ${widget?.id ?? 'background'} → ${action.type}`);
+    switch (action.type) {
+      case 'page':
+        return this.showPage(action.page) && this.followPin();
+      case 'nextPage':
+        this.goTo((this.pageIndex + 1) % this.pages.length, performance.now());
+        return this.followPin();
+      case 'expand':
+        return widget ? this.expandWidget(widget.id) : false;
+      case 'collapse':
+        this.collapseWidget();
+        return true;
+      case 'acknowledge': {
+        const top = this.alerts?.getTop();
+        return top ? this.alerts!.acknowledge(top.id) : false;
+      }
+    }
+  }
+
+  /**
+   * Show one of the current page's widgets full screen (the carousel holds
+   * until collapseWidget() or a page change)
+   * @param id - Widget id, e.g. 'fuelHistory'
+   * @returns False if the page has no widget with that id
+   */
+  expandWidget(id: string): boolean {
+    if (!this.ready || this.expanded?.id === id) return false;
+    if (this.changing) this.finishTransition(performance.now());
+
+    const widget = this.front.widgets.find(w => w.id === id);
+    if (!widget) {
+      console.warn(`⚠️ Unknown telematics widget "${id}"`);
+      return false;
+    }
+    const header = this.front.widgets.find(w => w.type === 'infoBar' && w !== widget) ?? null;
+    this.expanded = { id, layout: expandedLayout(widget, header) };
+    this.rebuild();
+    console.log(`🔍 Telematics widget expanded: ${id}`);
+    return true;
+  }
+
+  /**
+   * Return from a full screen widget to its page
+   */
+  collapseWidget(): void {
+    if (!this.expanded) return;
+    this.expanded = null;
+    this.rebuild();
+  }
+
+  /**
+   * Show a single layout (stops the carousel)
+   * @param layout - Layout spec
+   */
+  setLayout(layout: DashboardLayout): void {
+    if (this.pages.length === 1 && this.pages[0].layouts[0] === layout) return;
+    this.setResolvedPages([singlePage(layout)]);
+    console.log(`📺 Telematics layout: ${layout.name ?? layout.id}`);
+  }
+
+  /**
+   * Replace the carousel pages (starts again from the first page)
+   * @param pages - Pages to cycle through
+   */
+  setPages(pages: DashboardPage[]): void {
+    this.setResolvedPages(resolvePages(pages));
+  }
+
+  /**
+   * Resize the canvas, e.g. when the display's aspect ratio changes
+   * The texture object is kept; only its GPU storage is reallocated.
+   * Each page switches to its layout closest to the new aspect ratio.
+   * @param width - Canvas width in pixels
+   * @param height - Canvas height in pixels
+   */
+  setSize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    this.paint({ type: 'resize', width, height });
+    // Storage is sized on first upload; free it so the next upload reallocates
+    // (worker frames of a new size are handled when they arrive)
+    if (this.painter) this.texture.dispose();
+    this.rebuild();
+  }
+
+  /**
+   * Switch theme at runtime
+   * The current page is redrawn into the same canvas and texture (no GPU
+   * reallocation); other pages pick the theme up when they are next shown.
+   * @param theme - Theme or built-in theme id, e.g. 'light'
+   */
+  setTheme(theme: DashboardTheme | string): void {
+    const resolved = resolveTheme(theme);
+    if (resolved === this.theme) return;
+    this.theme = resolved;
+    this.paint({ type: 'theme', theme: resolved });
+    this.rebuild();
+    console.log(`🎨 Telematics theme: ${resolved.name ?? resolved.id}`);
+  }
+
+  /**
+   * Force every widget to redraw on the next update
+   */
+  invalidate(): void {
+    this.front.invalidate();
+    this.back.invalidate();
+  }
+
+  /**
+   * Release the GPU texture, stop the worker and stop following alerts
+   */
+  dispose(): void {
+    this.unsubscribeAlerts?.();
+    this.unsubscribeAlerts = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    closeBitmap(this.texture.image);
+    this.texture.dispose();
+  }
+
+  /**
+   * Draw in the dashboard worker
+   * @returns Texture showing the worker's frames, or null if this browser can't render in a worker
+   * @private
+   */
+  private startWorker(): THREE.Texture | null {
+    if (!supportsWorkerRendering()) return null;
+    try {
+      this.worker = new Worker(new URL('./DashboardWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('⚠️ Telematics render worker failed to start:', error);
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<DashboardWorkerReply>) => this.receiveFrame(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.fallBack(event.message || 'worker error');
+    };
+
+    const texture = new THREE.Texture();
+    // ImageBitmaps upload unflipped (UNPACK_FLIP_Y doesn't apply to them),
+    // so flip through the UV transform instead
+    texture.flipY = false;
+    texture.repeat.set(1, -1);
+    texture.offset.set(0, 1);
+    this.ready = true;
+    this.paint({ type: 'resize', width: this.width, height: this.height });
+    this.paint({ type: 'theme', theme: this.theme });
+    console.log('🧵 Telematics display drawing in a worker');
+    return texture;
+  }
+
+  /**
+   * Draw on the main thread into a canvas
+   * @param texture - Texture to show the canvas (default: a new CanvasTexture)
+   * @returns The texture showing the canvas
+   * @private
+   */
+  private startPainter(texture?: THREE.Texture): THREE.Texture {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.width;
+    canvas.height = this.height;
+    const target = texture ?? new THREE.CanvasTexture(canvas);
+    const painter = new DashboardPainter(canvas, this.theme);
+    if (!painter.ready) {
+      console.error('Failed to get 2D context for telematics texture');
+      this.ready = false;
+      return target;
+    }
+
+    this.painter = painter;
+    this.ready = true;
+    target.image = canvas;
+    target.needsUpdate = true;
+    return target;
+  }
+
+  /**
+   * Show a frame from the worker, or fall back to the main thread
+   * @private
+   */
+  private receiveFrame(reply: DashboardWorkerReply): void {
+    if (!this.worker) return;
+    if (reply.type === 'unsupported') {
+      this.fallBack('no 2D context for OffscreenCanvas');
+      return;
+    }
+
+    const previous = this.texture.image as ImageBitmap | undefined;
+    // Storage is sized on first upload; free it so a resized frame reallocates
+    if (previous && (previous.width !== reply.bitmap.width || previous.height !== reply.bitmap.height)) {
+      this.texture.dispose();
+    }
+    closeBitmap(previous);
+    this.texture.image = reply.bitmap;
+    this.texture.needsUpdate = true;
+  }
+
+  /**
+   * Stop the worker and redraw everything on the main thread, keeping the
+   * same texture object (materials already use it)
+   * @private
+   */
+  private fallBack(reason: string): void {
+    if (!this.worker) return;
+    console.warn(`⚠️ Telematics render worker unavailable (${reason}), drawing on the main thread`);
+    this.worker.terminate();
+    this.worker = null;
+    this.commands = [];
+
+    closeBitmap(this.texture.image);
+    this.texture.dispose();
+    this.texture.flipY = true;
+    this.texture.repeat.set(1, 1);
+    this.texture.offset.set(0, 0);
+    this.startPainter(this.texture);
+    this.invalidate();
+    this.rebuild();
+  }
+
+  /**
+   * Queue a paint command for the next flush
+   * @private
+   */
+  private paint(command: PaintCommand): void {
+    this.commands.push(command);
+  }
+
+  /**
+   * Run queued paint commands on the main thread, or post them to the worker
+   * @returns True if the display changed (or will, once the worker's frame arrives)
+   * @private
+   */
+  private flush(): boolean {
+    const commands = this.commands;
+    if (commands.length === 0) return false;
+    this.commands = [];
+
+    if (this.worker) {
+      this.worker.postMessage({ type: 'paint', commands });
+      return changesDisplay(commands);
+    }
+    const changed = this.painter?.run(commands) ?? false;
+    if (changed) {
+      this.texture.needsUpdate = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Queue redraws of a surface's widgets whose data changed
+   * @returns The widgets redrawn
+   * @private
+   */
+  private drawChanged(surface: PageSurface): ResolvedWidget[] {
+    const changed = surface.update(this.state);
+    if (changed.length > 0) {
+      this.paint({ type: 'draw', surface: surface.slot, widgets: changed, state: this.state });
+    }
+    return changed;
+  }
+
+  /**
+   * Resolve the last data with fuel history, trip totals and alerts
+   * (fields the caller passed take precedence)
+   * @private
+   */
+  private resolve(now: number): WidgetState {
+    const top = this.alerts?.getTop() ?? null;
+    return resolveTelematicsData({
+      fuelHistory: this.getFuelHistorySnapshot(),
+      trip: this.trip.getData(),
+      banner: top ? { text: top.message, severity: top.severity, flash: true } : null,
+      alerts: this.alerts?.getActive() ?? [],
+      ...this.data
+    }, now);
+  }
+
+  /**
+   * Copy of the fuel history for widgets and alert rules
+   * @private
+   */
+  private getFuelHistorySnapshot(): FuelHistorySnapshot {
+    return { samples: this.fuelHistory.getSamples(), events: this.fuelHistory.getEvents() };
+  }
+
+  /**
+   * Swap in new pages and rebuild from the first one
+   * @private
+   */
+  private setResolvedPages(pages: ResolvedPage[]): void {
+    if (pages.length === 0) return;
+    this.pages = pages;
+    this.pageIndex = 0;
+    this.pinned = null;
+    this.expanded = null;
+    this.rebuild();
+  }
+
+  /**
+   * Layout for a page at the current canvas aspect ratio
+   * @private
+   */
+  private layoutFor(page: ResolvedPage): DashboardLayout {
+    return pickLayout([this.width, this.height], page.layouts);
+  }
+
+  /**
+   * Draw a page (or the full screen widget replacing it) into a surface with current data
+   * @private
+   */
+  private buildSurface(surface: PageSurface, index: number, expanded: ExpandedWidget | null = null): void {
+    const indicator: PageIndicator | null = this.pages.length > 1 && !expanded
+      ? { titles: this.pages.map(page => page.title), active: index }
+      : null;
+    surface.build(expanded?.layout ?? this.layoutFor(this.pages[index]), this.width, this.height);
+    this.paint({ type: 'build', surface: surface.slot, widgets: surface.widgets, indicator });
+    this.drawChanged(surface);
+  }
+
+  /**
+   * Whether a tap action applies right now (e.g. acknowledge needs an
+   * unacknowledged alert, page needs another page to go to)
+   * @private
+   */
+  private canRun(action: WidgetAction | null): boolean {
+    if (!action) return false;
+    switch (action.type) {
+      case 'page':
+        return action.page !== this.currentPage && this.pages.some(page => page.id === action.page);
+      case 'nextPage':
+        return this.pages.length > 1;
+      case 'expand':
+        return this.expanded === null;
+      case 'collapse':
+        return this.expanded !== null;
+      case 'acknowledge':
+        return (this.alerts?.getTop() ?? null) !== null;
+    }
+  }
+
+  /**
+   * Move the hover outline to another widget
+   * @private
+   */
+  private setHovered(widget: ResolvedWidget | null): void {
+    if (widget === this.hovered || !this.ready) return;
+    // Transitions redraw the whole canvas every frame, so there is nothing to restore
+    if (this.changing) {
+      this.hovered = null;
+      return;
+    }
+    if (this.hovered) {
+      this.paint({ type: 'show', surface: this.front.slot, rects: [this.hovered.rect] });
+    }
+    this.hovered = widget;
+    if (widget) {
+      this.paint({ type: 'highlight', rect: widget.rect });
+    }
+    this.flush();
+  }
+
+  /**
+   * Redraw the current page from scratch (cancels a running transition)
+   * @private
+   */
+  private rebuild(): void {
+    if (!this.ready) return;
+    this.changing = null;
+    this.hovered = null;
+    this.pageStart = performance.now();
+    this.buildSurface(this.front, this.pageIndex, this.expanded);
+    this.paint({ type: 'show', surface: this.front.slot });
+    this.flush();
+  }
+
+  /**
+   * Start the transition to a page
+   * @returns True if the texture was updated
+   * @private
+   */
+  private goTo(index: number, now: number): boolean {
+    if (this.changing) this.finishTransition(now);
+    if (index === this.pageIndex) {
+      this.pageStart = now;
+      if (!this.expanded) return false;
+      this.collapseWidget();
+      return true;
+    }
+
+    this.expanded = null;
+    this.hovered = null;
+    this.buildSurface(this.back, index);
+    this.changing = { to: index, start: now };
+    if (this.transition.duration <= 0) {
+      this.finishTransition(now);
+    }
+    return this.flush();
+  }
+
+  /**
+   * Make the incoming page current and show it
+   * @private
+   */
+  private finishTransition(now: number): void {
+    if (!this.changing || !this.ready) return;
+    this.pageIndex = this.changing.to;
+    this.pageStart = now;
+    this.changing = null;
+    [this.front, this.back] = [this.back, this.front];
+    this.paint({ type: 'show', surface: this.front.slot });
+  }
+}
 
 /**
  * Translink Telematics Display Texture Generator
- * 
+ *
  * Creates a high-resolution canvas-based texture for the truck dashboard display.
- * Features:
+ * Default layout features:
  * - Segmented speed indicator arc (0-160 KM/H)
  * - Large center speed display with ECO mode indicator
  * - Fuel gauge with tank icon and percentage
  * - Battery gauge with icon and range estimate
  * - Top info bar with live status, temperature, and time
  * - Brand colors (Translink crimson red #be202e)
- * 
+ *
+ * For displays that update over time, keep a TelematicsRenderer instead -
+ * this creates a new canvas and texture on every call. The texture is drawn
+ * on the main thread, so it is complete when returned.
+ *
  * @param data - Telematics data to display
+ * @param options - Layout and canvas size (default: 2:1 dashboard at 2048×1024)
  * @returns THREE.CanvasTexture ready for use on 3D mesh
- * 
+ *
  * @example
  * ```typescript
  * const texture = createTelematicsTexture({
@@ -23,11 +878,24 @@ import type { TelematicsData } from './types';
  *   fuelLevel: 0.65,
  *   batteryLevel: 0.75
  * });
- * 
+ *
  * const material = new THREE.MeshBasicMaterial({ map: texture });
  * ```
  */
-export function createTelematicsTexture(data: TelematicsData): THREE.CanvasTexture {
+export function createTelematicsTexture(
+  data: TelematicsData,
+  options: TelematicsRendererOptions = {}
+): THREE.CanvasTexture {
+  return new TelematicsRenderer(data, { ...options, worker: false }).texture as THREE.CanvasTexture;
+}
+
+/**
+ * Apply defaults for optional telematics fields (the values the display
+ * shows for them), e.g. for DOM views mirroring the display
+ * @param data - Telematics data
+ * @param now - Time the data is drawn at in ms (default: performance.now())
+ */
+export function resolveTelematicsData(data: TelematicsData, now: number = performance.now()): WidgetState {
   const {
     speed = 85,
     fuelLevel = 0.65,
@@ -35,416 +903,105 @@ export function createTelematicsTexture(data: TelematicsData): THREE.CanvasTextu
     temperature = 18,
     time = '12:45',
     ecoMode = true,
-    range = 443
+    range = 443,
+    diagnostics = [
+      { label: 'ENGINE', value: 'ONLINE', status: 'ok' },
+      { label: 'SENSOR', value: 'ACTIVE', status: 'ok' },
+      { label: 'GPS', value: 'LOCKED', status: 'ok' },
+      { label: 'TEMP', value: temperature, unit: '°C', status: 'ok' },
+      { label: 'PRESSURE', value: 2.4, unit: 'BAR', status: 'ok' }
+    ],
+    tankCapacity = 400,
+    fuelHistory = { samples: [], events: [] },
+    trip = { distance: 0, duration: 0, averageSpeed: 0, fuelUsed: 0 },
+    series = {},
+    banner = null,
+    alerts = []
   } = data;
+  return {
+    speed, fuelLevel, batteryLevel, temperature, time, ecoMode, range, diagnostics,
+    tankCapacity, fuelHistory, trip, series, banner, alerts, now
+  };
+}
 
-  const canvas = document.createElement('canvas');
-  canvas.width = 2048;
-  canvas.height = 1024;
-  const ctx = canvas.getContext('2d');
-  
-  if (!ctx) {
-    console.error('Failed to get 2D context for telematics texture');
-    return new THREE.CanvasTexture(canvas);
-  }
-
-  // Dark navy background with subtle gradient
-  const gradient = ctx.createRadialGradient(1024, 512, 0, 1024, 512, 1200);
-  gradient.addColorStop(0, '#1d2635');
-  gradient.addColorStop(1, '#0f1419');
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, 2048, 1024);
-  
-  const centerX = 1024;
-  const centerY = 550;
-  const mainRadius = 400;
-
-  // === HOLOGRAPHIC GRID LINES ===
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.15)';
-  ctx.lineWidth = 1;
-  
-  // Horizontal lines
-  for (let y = 100; y < 1024; y += 80) {
-    ctx.beginPath();
-    ctx.moveTo(0, y);
-    ctx.lineTo(2048, y);
-    ctx.stroke();
-  }
-  
-  // Vertical lines
-  for (let x = 100; x < 2048; x += 80) {
-    ctx.beginPath();
-    ctx.moveTo(x, 0);
-    ctx.lineTo(x, 1024);
-    ctx.stroke();
-  }
-
-  // === OUTER GLOW RING ===
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.3)';
-  ctx.lineWidth = 2;
-  ctx.beginPath();
-  ctx.arc(centerX, centerY, mainRadius + 60, 0, Math.PI * 2);
-  ctx.stroke();
-  
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.15)';
-  ctx.lineWidth = 1;
-  ctx.beginPath();
-  ctx.arc(centerX, centerY, mainRadius + 80, 0, Math.PI * 2);
-  ctx.stroke();
-
-  // === SPEED INDICATOR ARC (Segmented with glow) ===
-  const segments = 20;
-  const segmentAngle = (Math.PI * 1.6) / segments;
-  const startAngle = Math.PI * 0.7;
-  
-  for (let i = 0; i < segments; i++) {
-    const angle = startAngle + i * segmentAngle;
-    const speedThreshold = (i + 1) / segments;
-    
-    // Fill if speed exceeds this segment
-    if (speed / 160 > speedThreshold - 0.05) {
-      // Active segment with glow
-      ctx.shadowColor = '#be202e';
-      ctx.shadowBlur = 20;
-      ctx.fillStyle = '#be202e';
-    } else {
-      // Inactive segment
-      ctx.shadowBlur = 0;
-      ctx.fillStyle = 'rgba(108, 108, 108, 0.3)';
+/**
+ * Look up the layouts of carousel pages (pages without a known layout are skipped)
+ * @private
+ */
+function resolvePages(pages: DashboardPage[]): ResolvedPage[] {
+  return pages.flatMap(page => {
+    const layouts = page.layouts
+      .map(id => getLayout(id))
+      .filter((layout): layout is DashboardLayout => layout !== undefined);
+    if (layouts.length === 0) {
+      console.warn(`⚠️ Telematics page "${page.id}" has no known layout`);
+      return [];
     }
-    
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, mainRadius, angle, angle + segmentAngle * 0.9);
-    ctx.arc(centerX, centerY, mainRadius - 60, angle + segmentAngle * 0.9, angle, true);
-    ctx.closePath();
-    ctx.fill();
-  }
-  
-  ctx.shadowBlur = 0;
-
-  // === SPEED TICK MARKS ===
-  ctx.strokeStyle = '#6c6c6c';
-  ctx.lineWidth = 2;
-  for (let i = 0; i <= 8; i++) {
-    const angle = startAngle + (i / 8) * (Math.PI * 1.6);
-    const x1 = centerX + Math.cos(angle) * (mainRadius - 70);
-    const y1 = centerY + Math.sin(angle) * (mainRadius - 70);
-    const x2 = centerX + Math.cos(angle) * (mainRadius - 90);
-    const y2 = centerY + Math.sin(angle) * (mainRadius - 90);
-    
-    ctx.beginPath();
-    ctx.moveTo(x1, y1);
-    ctx.lineTo(x2, y2);
-    ctx.stroke();
-    
-    // Speed labels
-    ctx.font = '24px Arial';
-    ctx.fillStyle = '#6c6c6c';
-    ctx.textAlign = 'center';
-    const labelX = centerX + Math.cos(angle) * (mainRadius - 120);
-    const labelY = centerY + Math.sin(angle) * (mainRadius - 120);
-    ctx.fillText((i * 20).toString(), labelX, labelY + 8);
-  }
-
-  // === CENTER SPEED DISPLAY WITH HOLOGRAPHIC EFFECT ===
-  // Glow effect
-  ctx.shadowColor = '#be202e';
-  ctx.shadowBlur = 40;
-  ctx.font = 'bold 320px Arial';
-  ctx.fillStyle = '#ffffff';
-  ctx.textAlign = 'center';
-  ctx.fillText(Math.round(speed).toString(), centerX, centerY + 100);
-  
-  ctx.shadowBlur = 0;
-  
-  // Speed unit with accent
-  ctx.font = 'bold 56px Arial';
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('KM/H', centerX, centerY + 180);
-  
-  // Hexagon frame around speed
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
-  ctx.lineWidth = 3;
-  drawHexagon(ctx, centerX, centerY, 280);
-  
-  // Inner hexagon
-  ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
-  ctx.lineWidth = 2;
-  drawHexagon(ctx, centerX, centerY, 240);
-  
-  // Status indicator
-  ctx.font = 'bold 28px Arial';
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('● LIVE TRACKING', centerX, centerY - 280);
-  
-  // Range display
-  ctx.font = '32px Arial';
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText(`RANGE ${range} KM`, centerX, centerY + 240);
-
-  // === FUEL GAUGE (Left Side) ===
-  drawFuelGauge(ctx, 280, 550, 200, fuelLevel);
-
-  // === BATTERY GAUGE (Right Side) ===
-  drawBatteryGauge(ctx, 1768, 550, 200, batteryLevel);
-
-  // === TOP INFO BAR ===
-  drawInfoBar(ctx, centerX, temperature, time);
-
-  return new THREE.CanvasTexture(canvas);
+    return [{ id: page.id, title: page.title, dwell: page.dwell ?? DEFAULT_DWELL, layouts }];
+  });
 }
 
 /**
- * Draw fuel gauge with holographic design
+ * Wrap a single layout as the only page
  * @private
  */
-function drawFuelGauge(
-  ctx: CanvasRenderingContext2D,
-  centerX: number,
-  centerY: number,
-  radius: number,
-  fuelLevel: number
-): void {
-  // Circular progress ring
-  const ringRadius = 140;
-  
-  // Background ring
-  ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
-  ctx.lineWidth = 20;
-  ctx.beginPath();
-  ctx.arc(centerX, centerY, ringRadius, 0, Math.PI * 2);
-  ctx.stroke();
-  
-  // Fuel level ring with glow
-  ctx.shadowColor = '#be202e';
-  ctx.shadowBlur = 15;
-  ctx.strokeStyle = '#be202e';
-  ctx.lineWidth = 20;
-  ctx.beginPath();
-  ctx.arc(centerX, centerY, ringRadius, -Math.PI / 2, (-Math.PI / 2) + (fuelLevel * Math.PI * 2));
-  ctx.stroke();
-  ctx.shadowBlur = 0;
-  
-  // Fuel percentage
-  ctx.font = 'bold 72px Arial';
-  ctx.fillStyle = '#ffffff';
-  ctx.textAlign = 'center';
-  ctx.fillText(Math.round(fuelLevel * 100) + '%', centerX, centerY + 20);
-  
-  // Label
-  ctx.font = 'bold 28px Arial';
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('FUEL LEVEL', centerX, centerY + 60);
-  
-  // Corner brackets (holographic frame)
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.6)';
-  ctx.lineWidth = 3;
-  const bracketSize = 30;
-  const offset = ringRadius + 40;
-  
-  // Top-left
-  ctx.beginPath();
-  ctx.moveTo(centerX - offset, centerY - offset + bracketSize);
-  ctx.lineTo(centerX - offset, centerY - offset);
-  ctx.lineTo(centerX - offset + bracketSize, centerY - offset);
-  ctx.stroke();
-  
-  // Top-right
-  ctx.beginPath();
-  ctx.moveTo(centerX + offset - bracketSize, centerY - offset);
-  ctx.lineTo(centerX + offset, centerY - offset);
-  ctx.lineTo(centerX + offset, centerY - offset + bracketSize);
-  ctx.stroke();
-  
-  // Bottom-left
-  ctx.beginPath();
-  ctx.moveTo(centerX - offset, centerY + offset - bracketSize);
-  ctx.lineTo(centerX - offset, centerY + offset);
-  ctx.lineTo(centerX - offset + bracketSize, centerY + offset);
-  ctx.stroke();
-  
-  // Bottom-right
-  ctx.beginPath();
-  ctx.moveTo(centerX + offset - bracketSize, centerY + offset);
-  ctx.lineTo(centerX + offset, centerY + offset);
-  ctx.lineTo(centerX + offset, centerY + offset - bracketSize);
-  ctx.stroke();
-  
-  // Data readout lines
-  ctx.font = '20px monospace';
-  ctx.fillStyle = '#6c6c6c';
-  ctx.textAlign = 'center';
-  ctx.fillText('SENSOR: ACTIVE', centerX, centerY + 200);
-  ctx.fillText(`LITERS: ${Math.round(fuelLevel * 400)}L`, centerX, centerY + 230);
+function singlePage(layout: DashboardLayout): ResolvedPage {
+  return { id: layout.id, title: layout.name ?? layout.id, dwell: DEFAULT_DWELL, layouts: [layout] };
 }
 
 /**
- * Draw system diagnostics panel
+ * Layout showing one widget full screen under its page's header
+ * Tapping the widget returns to the page.
  * @private
  */
-function drawBatteryGauge(
-  ctx: CanvasRenderingContext2D,
-  centerX: number,
-  centerY: number,
-  radius: number,
-  battLevel: number
-): void {
-  // System status panel with holographic design
-  const panelWidth = 280;
-  const panelHeight = 320;
-  
-  // Panel background with border
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.4)';
-  ctx.lineWidth = 2;
-  ctx.strokeRect(centerX - panelWidth / 2, centerY - panelHeight / 2, panelWidth, panelHeight);
-  
-  // Inner border
-  ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
-  ctx.lineWidth = 1;
-  ctx.strokeRect(centerX - panelWidth / 2 + 10, centerY - panelHeight / 2 + 10, panelWidth - 20, panelHeight - 20);
-  
-  // Title
-  ctx.font = 'bold 28px Arial';
-  ctx.fillStyle = '#be202e';
-  ctx.textAlign = 'center';
-  ctx.fillText('DIAGNOSTICS', centerX, centerY - 120);
-  
-  // Divider line
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
-  ctx.lineWidth = 1;
-  ctx.beginPath();
-  ctx.moveTo(centerX - 120, centerY - 90);
-  ctx.lineTo(centerX + 120, centerY - 90);
-  ctx.stroke();
-  
-  // Status items
-  ctx.font = '22px monospace';
-  ctx.textAlign = 'left';
-  
-  // Engine status
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('ENGINE', centerX - 110, centerY - 50);
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('● ONLINE', centerX + 10, centerY - 50);
-  
-  // Sensor status
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('SENSOR', centerX - 110, centerY - 10);
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('● ACTIVE', centerX + 10, centerY - 10);
-  
-  // GPS status
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('GPS', centerX - 110, centerY + 30);
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('● LOCKED', centerX + 10, centerY + 30);
-  
-  // Temperature
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('TEMP', centerX - 110, centerY + 70);
-  ctx.fillStyle = '#ffffff';
-  ctx.fillText('18°C', centerX + 10, centerY + 70);
-  
-  // Pressure
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('PRESSURE', centerX - 110, centerY + 110);
-  ctx.fillStyle = '#ffffff';
-  ctx.fillText('2.4 BAR', centerX + 10, centerY + 110);
+function expandedLayout(widget: ResolvedWidget, header: ResolvedWidget | null): DashboardLayout {
+  const title = widget.options.title ?? 'DETAIL';
+  return {
+    id: `${widget.id}-expanded`,
+    name: title,
+    columns: 1,
+    rows: [200, 824],
+    gap: 24,
+    widgets: [
+      {
+        id: 'header',
+        type: 'infoBar',
+        column: 0,
+        row: 0,
+        options: { ...header?.options, subtitle: title },
+        action: header?.action
+      },
+      {
+        id: widget.id,
+        type: widget.type,
+        column: 0,
+        row: 1,
+        options: { ...widget.options, maxScale: Math.max(widget.options.maxScale ?? 1, 2) },
+        action: { type: 'collapse' }
+      }
+    ]
+  };
 }
 
 /**
- * Draw top info bar with holographic header
+ * Whether the browser can draw the dashboard in a worker (2D context support
+ * for OffscreenCanvas is checked by the worker itself)
  * @private
  */
-function drawInfoBar(
-  ctx: CanvasRenderingContext2D,
-  centerX: number,
-  temperature: number,
-  time: string
-): void {
-  // Top header bar
-  ctx.fillStyle = 'rgba(190, 32, 46, 0.1)';
-  ctx.fillRect(0, 0, 2048, 200);
-  
-  // Header border
-  ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
-  ctx.lineWidth = 2;
-  ctx.beginPath();
-  ctx.moveTo(0, 200);
-  ctx.lineTo(2048, 200);
-  ctx.stroke();
-  
-  // Branding with glow
-  ctx.textAlign = 'center';
-  ctx.shadowColor = '#be202e';
-  ctx.shadowBlur = 20;
-  ctx.font = 'bold 56px Arial';
-  ctx.fillStyle = '#ffffff';
-  ctx.fillText('TRANSLINK', centerX, 90);
-  ctx.shadowBlur = 0;
-  
-  ctx.font = 'bold 36px Arial';
-  ctx.fillStyle = '#be202e';
-  ctx.fillText('FUEL TELEMATICS SYSTEM', centerX, 140);
-  
-  // Time display (left)
-  ctx.textAlign = 'left';
-  ctx.font = 'bold 32px monospace';
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('TIME', 100, 90);
-  ctx.fillStyle = '#ffffff';
-  ctx.fillText(time, 100, 140);
-  
-  // Temperature (right)
-  ctx.textAlign = 'right';
-  ctx.font = 'bold 32px monospace';
-  ctx.fillStyle = '#6c6c6c';
-  ctx.fillText('AMBIENT', 1948, 90);
-  ctx.fillStyle = '#ffffff';
-  ctx.fillText(`${temperature}°C`, 1948, 140);
-  
-  // Corner accents
-  ctx.strokeStyle = '#be202e';
-  ctx.lineWidth = 3;
-  
-  // Top-left corner
-  ctx.beginPath();
-  ctx.moveTo(50, 80);
-  ctx.lineTo(50, 50);
-  ctx.lineTo(80, 50);
-  ctx.stroke();
-  
-  // Top-right corner
-  ctx.beginPath();
-  ctx.moveTo(1998, 80);
-  ctx.lineTo(1998, 50);
-  ctx.lineTo(1968, 50);
-  ctx.stroke();
+function supportsWorkerRendering(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof OffscreenCanvas.prototype.transferToImageBitmap === 'function';
 }
 
 /**
- * Draw hexagon shape
+ * Free a worker frame that is no longer shown
  * @private
  */
-function drawHexagon(
-  ctx: CanvasRenderingContext2D,
-  centerX: number,
-  centerY: number,
-  radius: number
-): void {
-  ctx.beginPath();
-  for (let i = 0; i < 6; i++) {
-    const angle = (Math.PI / 3) * i - Math.PI / 2;
-    const x = centerX + radius * Math.cos(angle);
-    const y = centerY + radius * Math.sin(angle);
-    if (i === 0) {
-      ctx.moveTo(x, y);
-    } else {
-      ctx.lineTo(x, y);
-    }
+function closeBitmap(image: unknown): void {
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+    image.close();
   }
-  ctx.closePath();
-  ctx.stroke();
 }
 
 /**
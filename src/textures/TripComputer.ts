@@ -0,0 +1,75 @@
+import type { TripData } from './types';
+
+/**
+ * Longest gap between updates that still counts as driving (ms)
+ * Longer gaps (tab hidden, paused demo) are skipped instead of integrated.
+ */
+const MAX_STEP = 5000;
+
+/**
+ * TripComputer - Trip totals integrated from telematics updates
+ *
+ * Provides:
+ * - Distance from speed over time
+ * - Fuel used from falling fuel levels (rises are refuels and are ignored)
+ * - Average speed over the time driven
+ *
+ * @example
+ * ```typescript
+ * const trip = new TripComputer();
+ * trip.update(96, 0.64, 400, performance.now());
+ * trip.getData(); // { distance, duration, averageSpeed, fuelUsed }
+ * ```
+ */
+export class TripComputer {
+  private distance = 0;
+  private duration = 0;
+  private fuelUsed = 0;
+  private lastTime: number | null = null;
+  private lastFuel: number | null = null;
+
+  /**
+   * Integrate one update
+   * @param speed - Speed in KM/H
+   * @param fuelLevel - Fuel level (0.0-1.0)
+   * @param tankCapacity - Tank capacity in liters
+   * @param time - Timestamp in milliseconds
+   */
+  update(speed: number, fuelLevel: number, tankCapacity: number, time: number): void {
+    if (this.lastTime !== null) {
+      const step = time - this.lastTime;
+      if (step > 0 && step <= MAX_STEP) {
+        this.distance += (speed * step) / 3600000;
+        this.duration += step / 1000;
+      }
+    }
+    if (this.lastFuel !== null && fuelLevel < this.lastFuel) {
+      this.fuelUsed += (this.lastFuel - fuelLevel) * tankCapacity;
+    }
+    this.lastTime = time;
+    this.lastFuel = fuelLevel;
+  }
+
+  /**
+   * Current trip totals
+   */
+  getData(): TripData {
+    return {
+      distance: this.distance,
+      duration: this.duration,
+      averageSpeed: this.duration > 0 ? this.distance / (this.duration / 3600) : 0,
+      fuelUsed: this.fuelUsed
+    };
+  }
+
+  /**
+   * Start a new trip
+   */
+  reset(): void {
+    this.distance = 0;
+    this.duration = 0;
+    this.fuelUsed = 0;
+    this.lastTime = null;
+    this.lastFuel = null;
+  }
+}
@@ -4,6 +4,9 @@
  * Type definitions for texture generators
  */
 
+import type { Alert, AlertSeverity } from '../alerts/types';
+import type { AlertManager } from '../alerts/AlertManager';
+
 /**
  * Telematics data for dashboard display
  */
@@ -22,6 +25,323 @@ export interface TelematicsData {
   ecoMode?: boolean;
   /** Estimated range in KM - optional */
   range?: number;
+  /** Diagnostics panel items - optional (pages automatically when they don't fit) */
+  diagnostics?: DiagnosticItem[];
+  /** Tank capacity in liters, for liter readouts - optional (default: 400) */
+  tankCapacity?: number;
+  /** Fuel history for the fuelHistory widget - optional (TelematicsRenderer fills it from its ring buffer) */
+  fuelHistory?: FuelHistorySnapshot;
+  /** Trip totals for the tripSummary widget - optional (TelematicsRenderer computes them from updates) */
+  trip?: TripData;
+  /** Value histories for sparkline widgets, keyed by series name - optional */
+  series?: Record<string, number[]>;
+  /** Message for alert banner widgets (null hides the banner) - optional (TelematicsRenderer shows its top alert) */
+  banner?: AlertBannerData | null;
+  /** Active alerts for alert list widgets, newest first - optional (TelematicsRenderer fills them from its AlertManager) */
+  alerts?: Alert[];
+}
+
+/**
+ * Fuel level at a point in time
+ */
+export interface FuelSample {
+  /** Timestamp in milliseconds */
+  time: number;
+  /** Fuel level (0.0-1.0) */
+  level: number;
+}
+
+/**
+ * Kind of fuel event: refuel (level rose) or theft (sudden drop)
+ */
+export type FuelEventType = 'refuel' | 'theft';
+
+/**
+ * Refuel or sudden drop detected in the fuel history
+ */
+export interface FuelEvent {
+  type: FuelEventType;
+  /** When the change started (ms) */
+  time: number;
+  /** When the change was last seen (ms) */
+  end: number;
+  /** Level before the change (0.0-1.0) */
+  from: number;
+  /** Level after the change (0.0-1.0) */
+  to: number;
+}
+
+/**
+ * Fuel history handed to the fuelHistory widget
+ */
+export interface FuelHistorySnapshot {
+  /** Samples, oldest first */
+  samples: FuelSample[];
+  /** Events, oldest first */
+  events: FuelEvent[];
+}
+
+/**
+ * Fuel history ring buffer configuration
+ */
+export interface FuelHistoryOptions {
+  /** History kept in milliseconds (default: 300000) */
+  window?: number;
+  /** Minimum time between stored samples in milliseconds (default: 1000) */
+  sampleInterval?: number;
+  /** Time span a refuel / drop must happen within, in milliseconds (default: 20000) */
+  detectionWindow?: number;
+  /** Level rise that counts as a refuel (default: 0.04) */
+  refuelThreshold?: number;
+  /** Level drop that counts as theft (default: 0.06) */
+  theftThreshold?: number;
+}
+
+/**
+ * Trip totals since the display started (or the trip was reset)
+ */
+export interface TripData {
+  /** Distance driven in KM */
+  distance: number;
+  /** Time driven in seconds */
+  duration: number;
+  /** Average speed in KM/H */
+  averageSpeed: number;
+  /** Fuel consumed in liters (refuels excluded) */
+  fuelUsed: number;
+}
+
+/**
+ * Message shown by alert banner widgets
+ */
+export interface AlertBannerData {
+  /** Banner text, e.g. 'FUEL DROP DETECTED' */
+  text: string;
+  /** Colors the banner: info (green), warning (amber), critical (red) */
+  severity: AlertSeverity;
+  /** Flash the banner to draw attention - optional */
+  flash?: boolean;
+}
+
+/**
+ * Health of a diagnostics item
+ */
+export type DiagnosticStatus = 'ok' | 'warn' | 'fault';
+
+/**
+ * Single row of the diagnostics panel
+ */
+export interface DiagnosticItem {
+  /** Short label, e.g. 'GPS' */
+  label: string;
+  /** Reading or state, e.g. 2.4 or 'LOCKED' */
+  value: string | number;
+  /** Unit appended to the value, e.g. 'BAR' - optional */
+  unit?: string;
+  /** Colors the row: ok (green), warn (amber), fault (red) */
+  status: DiagnosticStatus;
+}
+
+/**
+ * Widgets available to dashboard layouts
+ */
+export type WidgetType =
+  | 'speedArc'
+  | 'fuelRing'
+  | 'diagnosticsList'
+  | 'infoBar'
+  | 'sparkline'
+  | 'fuelHistory'
+  | 'alertBanner'
+  | 'textBlock'
+  | 'tripSummary'
+  | 'alertList';
+
+/**
+ * Area of the canvas in pixels
+ */
+export interface WidgetRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Per-widget settings (each widget reads only the fields it supports)
+ */
+export interface WidgetOptions {
+  /** Heading text (infoBar, diagnosticsList, sparkline, fuelHistory) */
+  title?: string;
+  /** Secondary heading (infoBar) */
+  subtitle?: string;
+  /** Body text, '\n' separates lines (textBlock) */
+  text?: string;
+  /** Text alignment (textBlock, default: 'center') */
+  align?: CanvasTextAlign;
+  /** Font size in pixels (textBlock, default: 32) */
+  fontSize?: number;
+  /** Text color (textBlock, default: grey) */
+  color?: string;
+  /** Series name in TelematicsData.series (sparkline) */
+  series?: string;
+  /** History shown in seconds (fuelHistory, default: everything buffered) */
+  window?: number;
+  /** Show the top alert over the subtitle (infoBar, default: true) */
+  showAlerts?: boolean;
+  /** Only list warn / fault items (diagnosticsList, default: false) */
+  issuesOnly?: boolean;
+  /** Rows per page (diagnosticsList, default: 5) */
+  perPage?: number;
+  /** Largest scale applied to fixed-size widgets (default: 1) */
+  maxScale?: number;
+}
+
+/**
+ * What tapping a widget on the 3D display does
+ * - page: show a carousel page
+ * - nextPage: show the next carousel page
+ * - expand / collapse: show the widget full screen / return to its page
+ * - acknowledge: acknowledge the top unacknowledged alert
+ */
+export type WidgetAction =
+  | { type: 'page'; page: string }
+  | { type: 'nextPage' }
+  | { type: 'expand' }
+  | { type: 'collapse' }
+  | { type: 'acknowledge' };
+
+/**
+ * Widget placed in a layout grid cell
+ * Columns and rows are zero-based; spans default to 1
+ */
+export interface WidgetPlacement {
+  /** Unique id within the layout (default: type + index) */
+  id?: string;
+  type: WidgetType;
+  column: number;
+  row: number;
+  columnSpan?: number;
+  rowSpan?: number;
+  options?: WidgetOptions;
+  /** Tap action (default: the widget type's action; null: not tappable) */
+  action?: WidgetAction | null;
+}
+
+/**
+ * Dashboard screen layout (see src/config/dashboardLayouts.json)
+ */
+export interface DashboardLayout {
+  /** Layout identifier, e.g. 'widescreen' */
+  id: string;
+  /** Display name */
+  name?: string;
+  /** Width / height ratio the layout is designed for (used to pick a layout for a display size) */
+  aspect?: number;
+  /** Column widths as relative weights, or a number of equal columns */
+  columns: number | number[];
+  /** Row heights as relative weights, or a number of equal rows */
+  rows: number | number[];
+  /** Space between cells in pixels (default: 0) */
+  gap?: number;
+  /** Margin around the grid in pixels (default: 0) */
+  padding?: number;
+  widgets: WidgetPlacement[];
+}
+
+/**
+ * Page of the dashboard carousel (see src/config/dashboardPages.json)
+ */
+export interface DashboardPage {
+  /** Page identifier, e.g. 'fuelDetail' */
+  id: string;
+  /** Title shown by the page indicator */
+  title: string;
+  /** Layout ids for this page; the one closest to the canvas aspect ratio is used */
+  layouts: string[];
+  /** Time shown before moving to the next page, in milliseconds (default: 8000) */
+  dwell?: number;
+}
+
+/**
+ * Animation between carousel pages
+ */
+export interface PageTransition {
+  /** slide: pages move left; fade: crossfade */
+  type: 'slide' | 'fade';
+  /** Duration in milliseconds (0 switches instantly) */
+  duration: number;
+}
+
+/**
+ * Colors a dashboard theme draws with (hex, '#rgb' or '#rrggbb' - translucent
+ * variants are derived from them)
+ */
+export interface DashboardPalette {
+  /** Background gradient [center, edge] */
+  background: [string, string];
+  /** Brand accent: titles, frames, lit segments, grid */
+  accent: string;
+  /** Primary readouts, e.g. the speed */
+  text: string;
+  /** Labels and secondary readouts */
+  label: string;
+  /** Inactive segments, rings and guide lines */
+  muted: string;
+  /** Status colors, also used for alert severities (info / warning / critical) and fuel events */
+  ok: string;
+  warn: string;
+  fault: string;
+}
+
+/**
+ * Font families a dashboard theme draws with
+ */
+export interface DashboardFonts {
+  /** Headings and large readouts, e.g. 'Arial' */
+  display: string;
+  /** Tabular readouts, e.g. 'monospace' */
+  mono: string;
+}
+
+/**
+ * Look of the dashboard texture (see src/config/dashboardThemes.json)
+ */
+export interface DashboardTheme {
+  /** Theme identifier, e.g. 'highContrast' */
+  id: string;
+  /** Display name */
+  name?: string;
+  palette: DashboardPalette;
+  fonts: DashboardFonts;
+  /** Glow (shadow blur) multiplier: 1 is the original look, 0 turns glow off */
+  glow: number;
+  /** Opacity of the background grid lines (0 hides the grid) */
+  gridOpacity: number;
+}
+
+/**
+ * Telematics renderer configuration
+ */
+export interface TelematicsRendererOptions {
+  /** Widget layout for a single-page display (ignored when pages are given) */
+  layout?: DashboardLayout;
+  /** Carousel pages (default: single page with the first layout in src/config/dashboardLayouts.json) */
+  pages?: DashboardPage[];
+  /** Page transition (default: from src/config/dashboardPages.json) */
+  transition?: PageTransition;
+  /** Canvas width in pixels (default: 2048) */
+  width?: number;
+  /** Canvas height in pixels (default: 1024) */
+  height?: number;
+  /** Fuel history ring buffer settings */
+  history?: FuelHistoryOptions;
+  /** Alerts to evaluate on every update and show on the display - optional */
+  alerts?: AlertManager;
+  /** Draw in a Web Worker on an OffscreenCanvas when the browser supports it (default: true) */
+  worker?: boolean;
+  /** Theme or built-in theme id (default: the first theme in src/config/dashboardThemes.json) */
+  theme?: DashboardTheme | string;
 }
 
 /**
@@ -0,0 +1,1086 @@
+import type {
+  TelematicsData,
+  DiagnosticItem,
+  DiagnosticStatus,
+  AlertBannerData,
+  FuelEventType,
+  FuelHistorySnapshot,
+  WidgetType,
+  WidgetRect,
+  WidgetOptions,
+  WidgetAction,
+  DashboardTheme
+} from './types';
+import type { Alert, AlertSeverity } from '../alerts/types';
+import { withAlpha } from './DashboardTheme';
+
+/**
+ * Resolved data for one update, plus the time it was drawn at
+ */
+export type WidgetState = Required<TelematicsData> & { now: number };
+
+/**
+ * Dashboard widget
+ * - drawStatic: chrome that never changes, drawn once into the static layer
+ *   (may bleed outside the cell, e.g. decorative rings)
+ * - key: summary of the data the widget shows; the widget only redraws when it changes
+ * - draw: live content, clipped to the cell
+ * - action: what tapping the widget on the 3D display does (layouts may override it)
+ * Both draw functions take colors, fonts and glow from the display's theme.
+ */
+export interface WidgetDefinition {
+  drawStatic?: (ctx: CanvasRenderingContext2D, rect: WidgetRect, options: WidgetOptions, theme: DashboardTheme) => void;
+  key: (state: WidgetState, options: WidgetOptions) => string;
+  draw?: (
+    ctx: CanvasRenderingContext2D,
+    rect: WidgetRect,
+    state: WidgetState,
+    options: WidgetOptions,
+    theme: DashboardTheme
+  ) => void;
+  action?: WidgetAction;
+}
+
+const SPEED_RADIUS = 400;
+const SPEED_SEGMENTS = 20;
+const FUEL_RING_RADIUS = 140;
+const DIAGNOSTICS_PER_PAGE = 5;
+const DIAGNOSTICS_PAGE_DWELL = 3000; // ms per page when items overflow
+const INFO_BAR_HEIGHT = 200;
+const FLASH_PERIOD = 400; // ms per on / off phase of flashing banners
+
+// Palette status color each fuel event and alert severity is drawn in
+const FUEL_EVENT_STATUS: Record<FuelEventType, DiagnosticStatus> = {
+  refuel: 'ok',
+  theft: 'fault'
+};
+
+const SEVERITY_STATUS: Record<AlertSeverity, DiagnosticStatus> = {
+  info: 'ok',
+  warning: 'warn',
+  critical: 'fault'
+};
+
+/**
+ * Widget registry
+ *
+ * Widgets draw relative to the layout cell they are placed in:
+ * - Fixed-size widgets (speed arc, fuel ring, diagnostics) are authored at a
+ *   design size around their center and scaled to fit the cell
+ * - Stretching widgets (info bar, sparkline, alert banner, text block) fill
+ *   the cell width
+ * - Tappable types have a default action, e.g. the fuel ring opens the fuel
+ *   page and charts expand to full screen
+ * - Colors and fonts come from the display theme (palette roles rather than
+ *   fixed colors), glow blur is scaled by the theme's glow strength
+ *
+ * @example
+ * ```typescript
+ * const widget = WIDGETS.speedArc;
+ * widget.drawStatic?.(staticCtx, rect, {}, DEFAULT_THEME);
+ * widget.draw?.(ctx, rect, state, {}, DEFAULT_THEME);
+ * ```
+ */
+export const WIDGETS: Record<WidgetType, WidgetDefinition> = {
+  speedArc: {
+    drawStatic: (ctx, rect, options, theme) => {
+      fitDesign(ctx, rect, 880, 880, options);
+      drawSpeedFrame(ctx, theme);
+    },
+    key: d => `${Math.round(d.speed)}|${getLitSegments(d.speed)}|${d.range}`,
+    draw: (ctx, rect, d, options, theme) => {
+      fitDesign(ctx, rect, 880, 880, options);
+      drawSpeed(ctx, d.speed, d.range, theme);
+    },
+    action: { type: 'nextPage' }
+  },
+  fuelRing: {
+    drawStatic: (ctx, rect, options, theme) => {
+      fitDesign(ctx, rect, 420, 520, options);
+      drawFuelGauge(ctx, theme);
+    },
+    key: d => `${Math.round(d.fuelLevel * 1000)}|${d.tankCapacity}`,
+    draw: (ctx, rect, d, options, theme) => {
+      fitDesign(ctx, rect, 420, 520, options);
+      drawFuelLevel(ctx, d.fuelLevel, d.tankCapacity, theme);
+    },
+    action: { type: 'page', page: 'fuelDetail' }
+  },
+  diagnosticsList: {
+    drawStatic: (ctx, rect, options, theme) => {
+      fitDesign(ctx, rect, 300, 360, options);
+      drawDiagnosticsPanel(ctx, options.title ?? 'DIAGNOSTICS', theme);
+    },
+    key: (d, options) => `${getDiagnosticsPage(d, options)}|${JSON.stringify(getDiagnosticItems(d, options))}`,
+    draw: (ctx, rect, d, options, theme) => {
+      fitDesign(ctx, rect, 300, 360, options);
+      const items = getDiagnosticItems(d, options);
+      if (items.length === 0 && options.issuesOnly) {
+        drawAllClear(ctx, theme);
+        return;
+      }
+      drawDiagnostics(ctx, items, getDiagnosticsPage(d, options), options.perPage ?? DIAGNOSTICS_PER_PAGE, theme);
+    },
+    action: { type: 'page', page: 'diagnostics' }
+  },
+  infoBar: {
+    drawStatic: (ctx, rect, options, theme) => {
+      const width = fitHeight(ctx, rect, INFO_BAR_HEIGHT, options);
+      drawInfoBar(ctx, width, options.title ?? 'TRANSLINK', options.subtitle ?? 'FUEL TELEMATICS SYSTEM', theme);
+    },
+    key: (d, options) => `${d.time}|${d.temperature}|${options.showAlerts === false ? '' : getBannerKey(d)}`,
+    draw: (ctx, rect, d, options, theme) => {
+      const width = fitHeight(ctx, rect, INFO_BAR_HEIGHT, options);
+      drawHeaderValue(ctx, d.time, 100, 'left', theme);
+      drawHeaderValue(ctx, `${d.temperature}°C`, width - 100, 'right', theme);
+      // Top alert replaces the subtitle so every page shows it
+      if (d.banner && options.showAlerts !== false) {
+        drawAlertBanner(ctx, { x: width / 2 - 520, y: 104, w: 1040, h: 60 }, d.banner, isFlashOn(d), theme);
+      }
+    },
+    action: { type: 'acknowledge' }
+  },
+  sparkline: {
+    drawStatic: (ctx, rect, options, theme) => drawSparklineFrame(ctx, rect, options.title ?? '', theme),
+    key: (d, options) => (d.series[options.series ?? ''] ?? []).join(','),
+    draw: (ctx, rect, d, options, theme) => drawSparkline(ctx, rect, d.series[options.series ?? ''] ?? [], theme),
+    action: { type: 'expand' }
+  },
+  fuelHistory: {
+    drawStatic: (ctx, rect, options, theme) => drawSparklineFrame(ctx, rect, options.title ?? 'FUEL HISTORY', theme),
+    key: d => {
+      const { samples, events } = d.fuelHistory;
+      const lastEvent = events[events.length - 1];
+      return `${samples.length}|${samples[samples.length - 1]?.time}|${events.length}|${lastEvent?.end}|${d.tankCapacity}`;
+    },
+    draw: (ctx, rect, d, options, theme) => drawFuelHistory(
+      ctx,
+      rect,
+      d.fuelHistory,
+      options.window !== undefined ? options.window * 1000 : undefined,
+      d.tankCapacity,
+      theme
+    ),
+    action: { type: 'expand' }
+  },
+  alertBanner: {
+    key: d => getBannerKey(d),
+    draw: (ctx, rect, d, _options, theme) => {
+      if (d.banner) drawAlertBanner(ctx, rect, d.banner, isFlashOn(d), theme);
+    },
+    action: { type: 'acknowledge' }
+  },
+  alertList: {
+    drawStatic: (ctx, rect, options, theme) => drawSparklineFrame(ctx, rect, options.title ?? 'ALERTS', theme),
+    key: d => d.alerts.map(alert => `${alert.id}|${alert.severity}|${alert.acknowledged}|${alert.message}`).join(';'),
+    draw: (ctx, rect, d, _options, theme) => drawAlertList(ctx, rect, d.alerts, theme),
+    action: { type: 'acknowledge' }
+  },
+  textBlock: {
+    drawStatic: (ctx, rect, options, theme) => drawTextBlock(ctx, rect, options, theme),
+    key: () => ''
+  },
+  tripSummary: {
+    drawStatic: (ctx, rect, options, theme) => {
+      fitDesign(ctx, rect, 520, 440, options);
+      drawTripPanel(ctx, options.title ?? 'TRIP', theme);
+    },
+    key: d => getTripRows(d).map(row => row[1]).join('|'),
+    draw: (ctx, rect, d, options, theme) => {
+      fitDesign(ctx, rect, 520, 440, options);
+      drawTripValues(ctx, getTripRows(d), theme);
+    },
+    action: { type: 'page', page: 'trip' }
+  }
+};
+
+/**
+ * Banner contents plus its flash phase
+ * @private
+ */
+function getBannerKey(state: WidgetState): string {
+  const { banner } = state;
+  return banner ? `${banner.severity}|${banner.text}|${isFlashOn(state)}` : '';
+}
+
+/**
+ * Whether a flashing banner is in its bright phase (steady banners always are)
+ * @private
+ */
+function isFlashOn(state: WidgetState): boolean {
+  return !state.banner?.flash || Math.floor(state.now / FLASH_PERIOD) % 2 === 0;
+}
+
+/**
+ * Diagnostics items a list shows (all, or only warn / fault)
+ * @private
+ */
+function getDiagnosticItems(state: WidgetState, options: WidgetOptions): DiagnosticItem[] {
+  return options.issuesOnly ? state.diagnostics.filter(item => item.status !== 'ok') : state.diagnostics;
+}
+
+/**
+ * Trip readouts as [label, value] rows
+ * @private
+ */
+function getTripRows(state: WidgetState): [string, string][] {
+  const { distance, duration, averageSpeed, fuelUsed } = state.trip;
+  const hours = Math.floor(duration / 3600);
+  const minutes = Math.floor((duration % 3600) / 60);
+  const seconds = Math.floor(duration % 60);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return [
+    ['DISTANCE', `${distance.toFixed(1)} KM`],
+    ['DURATION', `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`],
+    ['AVG SPEED', `${Math.round(averageSpeed)} KM/H`],
+    ['FUEL USED', `${fuelUsed.toFixed(1)} L`],
+    ['ECONOMY', distance > 0.1 ? `${((fuelUsed / distance) * 100).toFixed(1)} L/100KM` : '--']
+  ];
+}
+
+/**
+ * Diagnostics page showing at a time (pages cycle when items overflow)
+ * @private
+ */
+function getDiagnosticsPage(state: WidgetState, options: WidgetOptions): number {
+  const pages = Math.ceil(getDiagnosticItems(state, options).length / (options.perPage ?? DIAGNOSTICS_PER_PAGE));
+  return pages > 1 ? Math.floor(state.now / DIAGNOSTICS_PAGE_DWELL) % pages : 0;
+}
+
+/**
+ * Number of lit speed arc segments
+ * @private
+ */
+function getLitSegments(speed: number): number {
+  let lit = 0;
+  for (let i = 0; i < SPEED_SEGMENTS; i++) {
+    if (speed / 160 > (i + 1) / SPEED_SEGMENTS - 0.05) lit++;
+  }
+  return lit;
+}
+
+/**
+ * Move the origin to the cell center and scale a design of the given size to fit
+ * @private
+ */
+function fitDesign(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  designWidth: number,
+  designHeight: number,
+  options: WidgetOptions
+): void {
+  const scale = Math.min(rect.w / designWidth, rect.h / designHeight, options.maxScale ?? 1);
+  ctx.translate(rect.x + rect.w / 2, rect.y + rect.h / 2);
+  ctx.scale(scale, scale);
+}
+
+/**
+ * Move the origin to the cell's top-left and scale a design of the given height to fit
+ * @returns Cell width in design units
+ * @private
+ */
+function fitHeight(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  designHeight: number,
+  options: WidgetOptions
+): number {
+  const scale = Math.min(rect.h / designHeight, options.maxScale ?? 1);
+  ctx.translate(rect.x, rect.y);
+  ctx.scale(scale, scale);
+  return rect.w / scale;
+}
+
+/**
+ * Draw the static parts of the speed display: glow rings, tick marks,
+ * hexagon frames and labels
+ * @private
+ */
+function drawSpeedFrame(ctx: CanvasRenderingContext2D, theme: DashboardTheme): void {
+  const { palette, fonts } = theme;
+  const mainRadius = SPEED_RADIUS;
+  const startAngle = Math.PI * 0.7;
+
+  // === OUTER GLOW RING ===
+  ctx.strokeStyle = withAlpha(palette.accent, 0.3);
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, mainRadius + 60, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = withAlpha(palette.accent, 0.15);
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(0, 0, mainRadius + 80, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // === SPEED TICK MARKS ===
+  ctx.strokeStyle = palette.muted;
+  ctx.lineWidth = 2;
+  for (let i = 0; i <= 8; i++) {
+    const angle = startAngle + (i / 8) * (Math.PI * 1.6);
+    const x1 = Math.cos(angle) * (mainRadius - 70);
+    const y1 = Math.sin(angle) * (mainRadius - 70);
+    const x2 = Math.cos(angle) * (mainRadius - 90);
+    const y2 = Math.sin(angle) * (mainRadius - 90);
+
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+
+    // Speed labels
+    ctx.font = `24px ${fonts.display}`;
+    ctx.fillStyle = palette.label;
+    ctx.textAlign = 'center';
+    const labelX = Math.cos(angle) * (mainRadius - 120);
+    const labelY = Math.sin(angle) * (mainRadius - 120);
+    ctx.fillText((i * 20).toString(), labelX, labelY + 8);
+  }
+
+  // Speed unit with accent
+  ctx.font = `bold 56px ${fonts.display}`;
+  ctx.fillStyle = palette.accent;
+  ctx.textAlign = 'center';
+  ctx.fillText('KM/H', 0, 180);
+
+  // Hexagon frame around speed
+  ctx.strokeStyle = withAlpha(palette.accent, 0.5);
+  ctx.lineWidth = 3;
+  drawHexagon(ctx, 0, 0, 280);
+
+  // Inner hexagon
+  ctx.strokeStyle = withAlpha(palette.muted, 0.3);
+  ctx.lineWidth = 2;
+  drawHexagon(ctx, 0, 0, 240);
+
+  // Status indicator
+  ctx.font = `bold 28px ${fonts.display}`;
+  ctx.fillStyle = palette.accent;
+  ctx.fillText('● LIVE TRACKING', 0, -280);
+}
+
+/**
+ * Draw the live speed arc, center speed and range
+ * @private
+ */
+function drawSpeed(ctx: CanvasRenderingContext2D, speed: number, range: number, theme: DashboardTheme): void {
+  const { palette, fonts, glow } = theme;
+  const mainRadius = SPEED_RADIUS;
+
+  // === SPEED INDICATOR ARC (Segmented with glow) ===
+  const segmentAngle = (Math.PI * 1.6) / SPEED_SEGMENTS;
+  const startAngle = Math.PI * 0.7;
+  const lit = getLitSegments(speed);
+
+  for (let i = 0; i < SPEED_SEGMENTS; i++) {
+    const angle = startAngle + i * segmentAngle;
+
+    // Fill if speed exceeds this segment
+    if (i < lit) {
+      // Active segment with glow
+      ctx.shadowColor = palette.accent;
+      ctx.shadowBlur = 20 * glow;
+      ctx.fillStyle = palette.accent;
+    } else {
+      // Inactive segment
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = withAlpha(palette.muted, 0.3);
+    }
+
+    ctx.beginPath();
+    ctx.arc(0, 0, mainRadius, angle, angle + segmentAngle * 0.9);
+    ctx.arc(0, 0, mainRadius - 60, angle + segmentAngle * 0.9, angle, true);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  ctx.shadowBlur = 0;
+
+  // === CENTER SPEED DISPLAY WITH HOLOGRAPHIC EFFECT ===
+  // Glow effect
+  ctx.shadowColor = palette.accent;
+  ctx.shadowBlur = 40 * glow;
+  ctx.font = `bold 320px ${fonts.display}`;
+  ctx.fillStyle = palette.text;
+  ctx.textAlign = 'center';
+  ctx.fillText(Math.round(speed).toString(), 0, 100);
+
+  ctx.shadowBlur = 0;
+
+  // Range display
+  ctx.font = `32px ${fonts.display}`;
+  ctx.fillStyle = palette.label;
+  ctx.fillText(`RANGE ${range} KM`, 0, 240);
+}
+
+/**
+ * Draw fuel gauge frame with holographic design
+ * @private
+ */
+function drawFuelGauge(ctx: CanvasRenderingContext2D, theme: DashboardTheme): void {
+  const { palette, fonts } = theme;
+  // Circular progress ring
+  const ringRadius = FUEL_RING_RADIUS;
+
+  // Background ring
+  ctx.strokeStyle = withAlpha(palette.muted, 0.3);
+  ctx.lineWidth = 20;
+  ctx.beginPath();
+  ctx.arc(0, 0, ringRadius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Label
+  ctx.font = `bold 28px ${fonts.display}`;
+  ctx.fillStyle = palette.label;
+  ctx.textAlign = 'center';
+  ctx.fillText('FUEL LEVEL', 0, 60);
+
+  // Corner brackets (holographic frame)
+  ctx.strokeStyle = withAlpha(palette.accent, 0.6);
+  ctx.lineWidth = 3;
+  const bracketSize = 30;
+  const offset = ringRadius + 40;
+
+  // Top-left
+  ctx.beginPath();
+  ctx.moveTo(-offset, -offset + bracketSize);
+  ctx.lineTo(-offset, -offset);
+  ctx.lineTo(-offset + bracketSize, -offset);
+  ctx.stroke();
+
+  // Top-right
+  ctx.beginPath();
+  ctx.moveTo(offset - bracketSize, -offset);
+  ctx.lineTo(offset, -offset);
+  ctx.lineTo(offset, -offset + bracketSize);
+  ctx.stroke();
+
+  // Bottom-left
+  ctx.beginPath();
+  ctx.moveTo(-offset, offset - bracketSize);
+  ctx.lineTo(-offset, offset);
+  ctx.lineTo(-offset + bracketSize, offset);
+  ctx.stroke();
+
+  // Bottom-right
+  ctx.beginPath();
+  ctx.moveTo(offset - bracketSize, offset);
+  ctx.lineTo(offset, offset);
+  ctx.lineTo(offset, offset - bracketSize);
+  ctx.stroke();
+
+  // Data readout
+  ctx.font = `20px ${fonts.mono}`;
+  ctx.fillStyle = palette.label;
+  ctx.textAlign = 'center';
+  ctx.fillText('SENSOR: ACTIVE', 0, 200);
+}
+
+/**
+ * Draw live fuel ring, percentage and liters readout
+ * @private
+ */
+function drawFuelLevel(
+  ctx: CanvasRenderingContext2D,
+  fuelLevel: number,
+  tankCapacity: number,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts, glow } = theme;
+  // Fuel level ring with glow
+  ctx.shadowColor = palette.accent;
+  ctx.shadowBlur = 15 * glow;
+  ctx.strokeStyle = palette.accent;
+  ctx.lineWidth = 20;
+  ctx.beginPath();
+  ctx.arc(0, 0, FUEL_RING_RADIUS, -Math.PI / 2, (-Math.PI / 2) + (fuelLevel * Math.PI * 2));
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  // Fuel percentage
+  ctx.font = `bold 72px ${fonts.display}`;
+  ctx.fillStyle = palette.text;
+  ctx.textAlign = 'center';
+  ctx.fillText(Math.round(fuelLevel * 100) + '%', 0, 20);
+
+  // Data readout
+  ctx.font = `20px ${fonts.mono}`;
+  ctx.fillStyle = palette.label;
+  ctx.fillText(`LITERS: ${Math.round(fuelLevel * tankCapacity)}L`, 0, 230);
+}
+
+/**
+ * Draw system diagnostics panel frame
+ * @private
+ */
+function drawDiagnosticsPanel(ctx: CanvasRenderingContext2D, title: string, theme: DashboardTheme): void {
+  const { palette, fonts } = theme;
+  // System status panel with holographic design
+  const panelWidth = 280;
+  const panelHeight = 320;
+
+  // Panel background with border
+  ctx.strokeStyle = withAlpha(palette.accent, 0.4);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight);
+
+  // Inner border
+  ctx.strokeStyle = withAlpha(palette.muted, 0.3);
+  ctx.lineWidth = 1;
+  ctx.strokeRect(-panelWidth / 2 + 10, -panelHeight / 2 + 10, panelWidth - 20, panelHeight - 20);
+
+  // Title
+  ctx.font = `bold 28px ${fonts.display}`;
+  ctx.fillStyle = palette.accent;
+  ctx.textAlign = 'center';
+  ctx.fillText(fitText(ctx, title, 240), 0, -120);
+
+  // Divider line
+  ctx.strokeStyle = withAlpha(palette.accent, 0.5);
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(-120, -90);
+  ctx.lineTo(120, -90);
+  ctx.stroke();
+}
+
+/**
+ * Draw one page of diagnostics items, colored by status
+ * Rows: label (label color) | status dot + value + unit (status color)
+ * @private
+ */
+function drawDiagnostics(
+  ctx: CanvasRenderingContext2D,
+  items: DiagnosticItem[],
+  page: number,
+  perPage: number,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts, glow } = theme;
+  const rows = items.slice(page * perPage, (page + 1) * perPage);
+  // Rows share the space below the divider
+  const rowHeight = Math.min(40, 200 / Math.max(perPage, 1));
+
+  ctx.font = `22px ${fonts.mono}`;
+  ctx.textAlign = 'left';
+
+  rows.forEach((item, i) => {
+    const y = -50 + i * rowHeight;
+    const value = item.unit ? `${item.value} ${item.unit}` : `${item.value}`;
+
+    ctx.fillStyle = item.status === 'ok' ? palette.label : palette.text;
+    ctx.fillText(fitText(ctx, item.label, 115), -110, y);
+
+    // Faults glow so they read at a distance
+    if (item.status === 'fault') {
+      ctx.shadowColor = palette.fault;
+      ctx.shadowBlur = 12 * glow;
+    }
+    ctx.fillStyle = palette[item.status];
+    ctx.fillText(fitText(ctx, `● ${value}`, 120), 10, y);
+    ctx.shadowBlur = 0;
+  });
+
+  // Page indicator when items overflow
+  const pages = Math.ceil(items.length / perPage);
+  if (pages > 1) {
+    ctx.font = `18px ${fonts.mono}`;
+    ctx.fillStyle = palette.label;
+    ctx.textAlign = 'right';
+    ctx.fillText(`${page + 1}/${pages}`, 120, 142);
+  }
+}
+
+/**
+ * Draw the empty state of an issues-only diagnostics list
+ * @private
+ */
+function drawAllClear(ctx: CanvasRenderingContext2D, theme: DashboardTheme): void {
+  ctx.font = `bold 24px ${theme.fonts.mono}`;
+  ctx.fillStyle = theme.palette.ok;
+  ctx.textAlign = 'center';
+  ctx.fillText('● ALL SYSTEMS NORMAL', 0, 20);
+}
+
+/**
+ * Draw the trip panel frame, title and divider
+ * @private
+ */
+function drawTripPanel(ctx: CanvasRenderingContext2D, title: string, theme: DashboardTheme): void {
+  const { palette, fonts } = theme;
+  const panelWidth = 500;
+  const panelHeight = 420;
+
+  ctx.strokeStyle = withAlpha(palette.accent, 0.4);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight);
+
+  ctx.font = `bold 32px ${fonts.display}`;
+  ctx.fillStyle = palette.accent;
+  ctx.textAlign = 'center';
+  ctx.fillText(fitText(ctx, title, panelWidth - 40), 0, -150);
+
+  ctx.strokeStyle = withAlpha(palette.accent, 0.5);
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(-220, -125);
+  ctx.lineTo(220, -125);
+  ctx.stroke();
+}
+
+/**
+ * Draw trip rows: label (label color, left) | value (text color, right)
+ * @private
+ */
+function drawTripValues(ctx: CanvasRenderingContext2D, rows: [string, string][], theme: DashboardTheme): void {
+  const { palette, fonts } = theme;
+  ctx.font = `28px ${fonts.mono}`;
+  rows.forEach(([label, value], i) => {
+    const y = -70 + i * 60;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = palette.label;
+    ctx.fillText(label, -220, y);
+    ctx.textAlign = 'right';
+    ctx.fillStyle = palette.text;
+    ctx.fillText(value, 220, y);
+  });
+}
+
+/**
+ * Truncate text with an ellipsis to fit a width in the current font
+ * @private
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(text.slice(0, end) + '…').width > maxWidth) end--;
+  return text.slice(0, end) + '…';
+}
+
+/**
+ * Draw top info bar with holographic header (labels only - values are drawn live)
+ * @private
+ */
+function drawInfoBar(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  title: string,
+  subtitle: string,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts, glow } = theme;
+  const centerX = width / 2;
+
+  // Top header bar
+  ctx.fillStyle = withAlpha(palette.accent, 0.1);
+  ctx.fillRect(0, 0, width, INFO_BAR_HEIGHT);
+
+  // Header border
+  ctx.strokeStyle = withAlpha(palette.accent, 0.5);
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, INFO_BAR_HEIGHT);
+  ctx.lineTo(width, INFO_BAR_HEIGHT);
+  ctx.stroke();
+
+  // Branding with glow
+  ctx.textAlign = 'center';
+  ctx.shadowColor = palette.accent;
+  ctx.shadowBlur = 20 * glow;
+  ctx.font = `bold 56px ${fonts.display}`;
+  ctx.fillStyle = palette.text;
+  ctx.fillText(title, centerX, 90);
+  ctx.shadowBlur = 0;
+
+  ctx.font = `bold 36px ${fonts.display}`;
+  ctx.fillStyle = palette.accent;
+  ctx.fillText(subtitle, centerX, 140);
+
+  // Time label (left)
+  ctx.textAlign = 'left';
+  ctx.font = `bold 32px ${fonts.mono}`;
+  ctx.fillStyle = palette.label;
+  ctx.fillText('TIME', 100, 90);
+
+  // Temperature label (right)
+  ctx.textAlign = 'right';
+  ctx.fillText('AMBIENT', width - 100, 90);
+
+  // Corner accents
+  ctx.strokeStyle = palette.accent;
+  ctx.lineWidth = 3;
+
+  // Top-left corner
+  ctx.beginPath();
+  ctx.moveTo(50, 80);
+  ctx.lineTo(50, 50);
+  ctx.lineTo(80, 50);
+  ctx.stroke();
+
+  // Top-right corner
+  ctx.beginPath();
+  ctx.moveTo(width - 50, 80);
+  ctx.lineTo(width - 50, 50);
+  ctx.lineTo(width - 80, 50);
+  ctx.stroke();
+}
+
+/**
+ * Draw a live header value (time / temperature) under its label
+ * @private
+ */
+function drawHeaderValue(
+  ctx: CanvasRenderingContext2D,
+  value: string,
+  x: number,
+  align: CanvasTextAlign,
+  theme: DashboardTheme
+): void {
+  ctx.textAlign = align;
+  ctx.font = `bold 32px ${theme.fonts.mono}`;
+  ctx.fillStyle = theme.palette.text;
+  ctx.fillText(value, x, 140);
+}
+
+/**
+ * Draw the sparkline border and title
+ * @private
+ */
+function drawSparklineFrame(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  title: string,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts } = theme;
+  ctx.strokeStyle = withAlpha(palette.accent, 0.4);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(rect.x + 1, rect.y + 1, rect.w - 2, rect.h - 2);
+
+  if (title) {
+    ctx.font = `bold 28px ${fonts.display}`;
+    ctx.fillStyle = palette.accent;
+    ctx.textAlign = 'left';
+    ctx.fillText(title, rect.x + 24, rect.y + 44);
+  }
+}
+
+/**
+ * Draw a series as a line with a soft fill, scaled to its own min/max
+ * @private
+ */
+function drawSparkline(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  values: number[],
+  theme: DashboardTheme
+): void {
+  const left = rect.x + 24;
+  const right = rect.x + rect.w - 24;
+  const top = rect.y + 64;
+  const bottom = rect.y + rect.h - 24;
+
+  if (values.length < 2) {
+    ctx.font = `22px ${theme.fonts.mono}`;
+    ctx.fillStyle = theme.palette.label;
+    ctx.textAlign = 'center';
+    ctx.fillText('NO DATA', (left + right) / 2, (top + bottom) / 2 + 8);
+    return;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  drawSeriesLine(
+    ctx,
+    values.map((v, i) => [
+      left + (i / (values.length - 1)) * (right - left),
+      bottom - ((v - min) / span) * (bottom - top)
+    ]),
+    bottom,
+    theme
+  );
+}
+
+/**
+ * Draw fuel level over time with min/max guides and refuel / theft markers
+ * @private
+ */
+function drawFuelHistory(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  history: FuelHistorySnapshot,
+  window: number | undefined,
+  tankCapacity: number,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts, glow } = theme;
+  const left = rect.x + 24;
+  const right = rect.x + rect.w - 24;
+  const top = rect.y + 84;
+  const bottom = rect.y + rect.h - 36;
+
+  const newest = history.samples[history.samples.length - 1];
+  const from = newest && window !== undefined ? newest.time - window : -Infinity;
+  const samples = history.samples.filter(sample => sample.time >= from);
+
+  if (samples.length < 2) {
+    ctx.font = `22px ${fonts.mono}`;
+    ctx.fillStyle = palette.label;
+    ctx.textAlign = 'center';
+    ctx.fillText('COLLECTING DATA…', (left + right) / 2, (top + bottom) / 2 + 8);
+    return;
+  }
+
+  const levels = samples.map(sample => sample.level);
+  const min = Math.min(...levels);
+  const max = Math.max(...levels);
+  // Keep a flat line off the edges
+  const pad = Math.max((max - min) * 0.1, 0.01);
+  const low = min - pad;
+  const high = max + pad;
+  const start = window !== undefined ? newest.time - window : samples[0].time;
+  const duration = newest.time - start || 1;
+  const pointX = (time: number) => left + ((time - start) / duration) * (right - left);
+  const pointY = (level: number) => bottom - ((level - low) / (high - low)) * (bottom - top);
+
+  drawSeriesLine(ctx, samples.map(sample => [pointX(sample.time), pointY(sample.level)]), bottom, theme);
+
+  // === MIN / MAX GUIDES ===
+  const formatLevel = (level: number) => `${Math.round(level * 100)}% · ${Math.round(level * tankCapacity)}L`;
+  ctx.font = `18px ${fonts.mono}`;
+  ctx.fillStyle = palette.label;
+  ctx.strokeStyle = withAlpha(palette.muted, 0.6);
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 6]);
+  [pointY(max), pointY(min)].forEach(y => {
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(right, y);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+  ctx.textAlign = 'right';
+  ctx.fillText(`MAX ${formatLevel(max)}`, right, pointY(max) - 8);
+  if (max !== min) ctx.fillText(`MIN ${formatLevel(min)}`, right, pointY(min) + 22);
+
+  // === EVENT MARKERS ===
+  ctx.textAlign = 'center';
+  history.events
+    .filter(event => event.end >= start)
+    .forEach(event => {
+      const color = palette[FUEL_EVENT_STATUS[event.type]];
+      const x = pointX(Math.max(event.time, start));
+      const y = pointY(Math.min(Math.max(event.to, low), high));
+      const liters = Math.round((event.to - event.from) * tankCapacity);
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x, top - 8);
+      ctx.lineTo(x, bottom);
+      ctx.stroke();
+
+      // Triangle pointing the way the level moved
+      const dir = event.type === 'refuel' ? -1 : 1;
+      ctx.fillStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 12 * glow;
+      ctx.beginPath();
+      ctx.moveTo(x, y + dir * 12);
+      ctx.lineTo(x - 10, y - dir * 6);
+      ctx.lineTo(x + 10, y - dir * 6);
+      ctx.closePath();
+      ctx.fill();
+      ctx.shadowBlur = 0;
+
+      ctx.font = `bold 18px ${fonts.mono}`;
+      const label = event.type === 'refuel' ? `REFUEL +${liters}L` : `DROP ${liters}L`;
+      const halfWidth = ctx.measureText(label).width / 2;
+      ctx.fillText(label, Math.min(Math.max(x, left + halfWidth), right - halfWidth), top - 14);
+    });
+}
+
+/**
+ * Stroke a line through points with a soft fill down to the baseline
+ * @private
+ */
+function drawSeriesLine(
+  ctx: CanvasRenderingContext2D,
+  points: [number, number][],
+  baseline: number,
+  theme: DashboardTheme
+): void {
+  const trace = () => {
+    ctx.beginPath();
+    points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+  };
+
+  // Fill under the line
+  trace();
+  ctx.lineTo(points[points.length - 1][0], baseline);
+  ctx.lineTo(points[0][0], baseline);
+  ctx.closePath();
+  ctx.fillStyle = withAlpha(theme.palette.accent, 0.15);
+  ctx.fill();
+
+  trace();
+  ctx.shadowColor = theme.palette.accent;
+  ctx.shadowBlur = 10 * theme.glow;
+  ctx.strokeStyle = theme.palette.accent;
+  ctx.lineWidth = 4;
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+}
+
+/**
+ * Draw an alert banner filling a rect, tinted by severity
+ * The dim phase of a flashing banner keeps the text but drops the fill.
+ * @private
+ */
+function drawAlertBanner(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  banner: AlertBannerData,
+  bright: boolean,
+  theme: DashboardTheme
+): void {
+  const { palette, fonts, glow } = theme;
+  const color = palette[SEVERITY_STATUS[banner.severity]];
+
+  // Opaque base so the banner can sit over static text
+  ctx.fillStyle = palette.background[1];
+  ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+  ctx.fillStyle = color;
+  ctx.globalAlpha = bright ? 0.45 : 0.12;
+  ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(rect.x + 2, rect.y + 2, rect.w - 4, rect.h - 4);
+
+  const fontSize = Math.min(56, rect.h * 0.55);
+  ctx.font = `bold ${fontSize}px ${fonts.display}`;
+  ctx.fillStyle = palette.text;
+  ctx.textAlign = 'center';
+  if (bright) {
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 20 * glow;
+  }
+  ctx.fillText(fitText(ctx, `⚠ ${banner.text}`, rect.w - 48), rect.x + rect.w / 2, rect.y + rect.h / 2 + fontSize * 0.35);
+  ctx.shadowBlur = 0;
+}
+
+/**
+ * Draw active alerts as rows: severity dot | message | time
+ * Acknowledged alerts are dimmed.
+ * @private
+ */
+function drawAlertList(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  alerts: Alert[],
+  theme: DashboardTheme
+): void {
+  const { palette, fonts } = theme;
+  const left = rect.x + 24;
+  const right = rect.x + rect.w - 24;
+  const rowHeight = 52;
+  const top = rect.y + 100;
+  const maxRows = Math.max(0, Math.floor((rect.y + rect.h - 16 - top) / rowHeight) + 1);
+
+  if (alerts.length === 0) {
+    ctx.font = `bold 24px ${fonts.mono}`;
+    ctx.fillStyle = palette.ok;
+    ctx.textAlign = 'center';
+    ctx.fillText('● NO ACTIVE ALERTS', (left + right) / 2, rect.y + rect.h / 2);
+    return;
+  }
+
+  ctx.font = `24px ${fonts.mono}`;
+  alerts.slice(0, maxRows).forEach((alert, i) => {
+    const y = top + i * rowHeight;
+    const color = palette[SEVERITY_STATUS[alert.severity]];
+    ctx.globalAlpha = alert.acknowledged ? 0.45 : 1;
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(left + 8, y - 8, 8, 0, Math.PI * 2);
+    ctx.fill();
+
+    const time = new Date(alert.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    ctx.textAlign = 'right';
+    ctx.fillStyle = palette.label;
+    ctx.fillText(alert.acknowledged ? `ACK ${time}` : time, right, y);
+    const timeWidth = ctx.measureText(`ACK ${time}`).width;
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = alert.acknowledged ? palette.label : palette.text;
+    ctx.fillText(fitText(ctx, alert.message, right - timeWidth - 24 - (left + 32)), left + 32, y);
+  });
+  ctx.globalAlpha = 1;
+
+  if (alerts.length > maxRows) {
+    ctx.font = `18px ${fonts.mono}`;
+    ctx.fillStyle = palette.label;
+    ctx.textAlign = 'right';
+    ctx.fillText(`+${alerts.length - maxRows} MORE`, right, rect.y + 44);
+  }
+}
+
+/**
+ * Draw fixed text lines, vertically centered in the cell
+ * @private
+ */
+function drawTextBlock(
+  ctx: CanvasRenderingContext2D,
+  rect: WidgetRect,
+  options: WidgetOptions,
+  theme: DashboardTheme
+): void {
+  const lines = (options.text ?? '').split('\n');
+  const fontSize = options.fontSize ?? 32;
+  const lineHeight = fontSize * 1.3;
+  const align = options.align ?? 'center';
+  const x = align === 'left' || align === 'start'
+    ? rect.x + 24
+    : align === 'right' || align === 'end'
+      ? rect.x + rect.w - 24
+      : rect.x + rect.w / 2;
+  const firstBaseline = rect.y + rect.h / 2 - ((lines.length - 1) * lineHeight) / 2 + fontSize * 0.35;
+
+  ctx.font = `bold ${fontSize}px ${theme.fonts.display}`;
+  ctx.fillStyle = options.color ?? theme.palette.label;
+  ctx.textAlign = align;
+  lines.forEach((line, i) => {
+    ctx.fillText(fitText(ctx, line, rect.w - 48), x, firstBaseline + i * lineHeight);
+  });
+}
+
+/**
+ * Draw hexagon shape
+ * @private
+ */
+function drawHexagon(
+  ctx: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  radius: number
+): void {
+  ctx.beginPath();
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i - Math.PI / 2;
+    const x = centerX + radius * Math.cos(angle);
+    const y = centerY + radius * Math.sin(angle);
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
+  ctx.closePath();
+  ctx.stroke();
+}
@@ -0,0 +1,20 @@
+/**
+ * WebGL Support Utility
+ *
+ * Detects whether the 3D experience can run. Add ?webgl=off to the URL to
+ * test the fallback (DOM dashboard only) on a machine that has WebGL.
+ */
+
+/**
+ * Check that this browser can create a WebGL context
+ * @returns False when WebGL is missing, blocked, or disabled with ?webgl=off
+ */
+export function isWebGLAvailable(): boolean {
+  if (new URLSearchParams(window.location.search).get('webgl') === 'off') return false;
+  try {
+    const canvas = document.createElement('canvas');
+    return !!(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+  } catch {
+    return false;
+  }
+}